@@ -0,0 +1,232 @@
+import { randomUUID } from "node:crypto";
+import { type BackendKind, config } from "~/core/config.ts";
+import { MAX_TOKENS, STOP_TOKENS, TEMPERATURE } from "~/core/constants.ts";
+import type { LocalAutocompleteServer } from "~/services/local-server.ts";
+import { utf8ByteOffsetToUtf16Offset } from "~/utils/text.ts";
+import { postJson, postJsonStream, toRequestError } from "./http.ts";
+import {
+	buildNextEditPrompt,
+	parseNextEditCompletion,
+} from "./next-edit-prompt.ts";
+import {
+	type AutocompleteMetricsRequest,
+	AutocompleteMetricsResponseSchema,
+	type AutocompleteRequest,
+	type AutocompleteResponse,
+	AutocompleteResponseSchema,
+	CompletionsResponseSchema,
+} from "./schemas.ts";
+
+const AUTOCOMPLETE_PATH = "/backend/next_edit_autocomplete";
+const METRICS_PATH = "/backend/track_autocomplete_metrics";
+const COMPLETIONS_PATH = "/v1/completions";
+const METRICS_TIMEOUT_MS = 5_000;
+
+/**
+ * A destination for autocomplete requests. Every backend accepts the same
+ * `AutocompleteRequest` and answers with an `AutocompleteResponse`, whatever
+ * it speaks on the wire.
+ */
+export interface AutocompleteBackend {
+	readonly kind: BackendKind;
+	/** Makes sure the backend can accept requests, e.g. by starting a server. */
+	prepare(): Promise<void>;
+	fetchAutocomplete(
+		request: AutocompleteRequest,
+		signal?: AbortSignal,
+	): Promise<AutocompleteResponse>;
+	/**
+	 * Like `fetchAutocomplete`, but hands over each response message as soon as
+	 * it arrives. Backends that cannot stream leave this out.
+	 */
+	streamAutocomplete?(
+		request: AutocompleteRequest,
+		onResponse: (response: AutocompleteResponse) => void,
+		signal?: AbortSignal,
+	): Promise<void>;
+	trackMetrics(event: AutocompleteMetricsRequest): Promise<void>;
+}
+
+/** The `sweep-autocomplete` server spawned through uvx on this machine. */
+export class LocalServerBackend implements AutocompleteBackend {
+	readonly kind = "local";
+	private localServer: LocalAutocompleteServer;
+
+	constructor(localServer: LocalAutocompleteServer) {
+		this.localServer = localServer;
+	}
+
+	prepare(): Promise<void> {
+		return this.localServer.ensureServerRunning();
+	}
+
+	fetchAutocomplete(
+		request: AutocompleteRequest,
+		signal?: AbortSignal,
+	): Promise<AutocompleteResponse> {
+		return this.reportOutcome(
+			postJson(
+				`${this.localServer.getServerUrl()}${AUTOCOMPLETE_PATH}`,
+				JSON.stringify(request),
+				AutocompleteResponseSchema,
+				{ signal, timeoutMs: config.requestTimeoutMs },
+			),
+		);
+	}
+
+	streamAutocomplete(
+		request: AutocompleteRequest,
+		onResponse: (response: AutocompleteResponse) => void,
+		signal?: AbortSignal,
+	): Promise<void> {
+		return this.reportOutcome(
+			postJsonStream(
+				`${this.localServer.getServerUrl()}${AUTOCOMPLETE_PATH}`,
+				JSON.stringify({ ...request, stream: true }),
+				AutocompleteResponseSchema,
+				onResponse,
+				{ signal, timeoutMs: config.requestTimeoutMs },
+			),
+		);
+	}
+
+	private async reportOutcome<T>(request: Promise<T>): Promise<T> {
+		try {
+			const result = await request;
+			this.localServer.reportSuccess();
+			return result;
+		} catch (error) {
+			const requestError = toRequestError(error);
+			if (requestError.kind !== "aborted") {
+				this.localServer.reportFailure(requestError);
+			}
+			throw requestError;
+		}
+	}
+
+	async trackMetrics(event: AutocompleteMetricsRequest): Promise<void> {
+		// Metrics are best-effort: never spawn the server or count failures
+		// toward a restart just to deliver them.
+		await postJson(
+			`${this.localServer.getServerUrl()}${METRICS_PATH}`,
+			JSON.stringify(event),
+			AutocompleteMetricsResponseSchema,
+			{ timeoutMs: METRICS_TIMEOUT_MS },
+		);
+	}
+}
+
+/** A Sweep autocomplete server reachable at `sweep.backendUrl`. */
+export class RemoteServerBackend implements AutocompleteBackend {
+	readonly kind = "remote";
+
+	async prepare(): Promise<void> {
+		if (!config.backendUrl) {
+			throw new Error("sweep.backendUrl must be set to use a remote backend");
+		}
+	}
+
+	fetchAutocomplete(
+		request: AutocompleteRequest,
+		signal?: AbortSignal,
+	): Promise<AutocompleteResponse> {
+		return postJson(
+			`${config.backendUrl}${AUTOCOMPLETE_PATH}`,
+			JSON.stringify(request),
+			AutocompleteResponseSchema,
+			{ signal, timeoutMs: config.requestTimeoutMs },
+		);
+	}
+
+	streamAutocomplete(
+		request: AutocompleteRequest,
+		onResponse: (response: AutocompleteResponse) => void,
+		signal?: AbortSignal,
+	): Promise<void> {
+		return postJsonStream(
+			`${config.backendUrl}${AUTOCOMPLETE_PATH}`,
+			JSON.stringify({ ...request, stream: true }),
+			AutocompleteResponseSchema,
+			onResponse,
+			{ signal, timeoutMs: config.requestTimeoutMs },
+		);
+	}
+
+	async trackMetrics(event: AutocompleteMetricsRequest): Promise<void> {
+		await postJson(
+			`${config.backendUrl}${METRICS_PATH}`,
+			JSON.stringify(event),
+			AutocompleteMetricsResponseSchema,
+			{ timeoutMs: METRICS_TIMEOUT_MS },
+		);
+	}
+}
+
+/**
+ * A llama.cpp, vLLM or other OpenAI-compatible server at `sweep.backendUrl`
+ * that is prompted with the raw Sweep next-edit format.
+ */
+export class CompletionsServerBackend implements AutocompleteBackend {
+	readonly kind = "completions";
+
+	async prepare(): Promise<void> {
+		if (!config.backendUrl) {
+			throw new Error(
+				"sweep.backendUrl must be set to use a completions backend",
+			);
+		}
+	}
+
+	async fetchAutocomplete(
+		request: AutocompleteRequest,
+		signal?: AbortSignal,
+	): Promise<AutocompleteResponse> {
+		const startTime = Date.now();
+		const contents = request.file_contents;
+		const cursorOffset = request.use_bytes
+			? utf8ByteOffsetToUtf16Offset(contents, request.cursor_position)
+			: request.cursor_position;
+		const { prompt, window } = buildNextEditPrompt({
+			filePath: request.file_path,
+			originalContents: request.original_file_contents,
+			currentContents: contents,
+			cursorOffset,
+			fileChunks: request.file_chunks,
+			retrievalChunks: request.retrieval_chunks,
+			recentChanges: request.recent_changes,
+		});
+
+		const response = await postJson(
+			`${config.backendUrl}${COMPLETIONS_PATH}`,
+			JSON.stringify({
+				model: config.completionsModel,
+				prompt,
+				max_tokens: MAX_TOKENS,
+				temperature: TEMPERATURE,
+				stop: STOP_TOKENS,
+			}),
+			CompletionsResponseSchema,
+			{ signal, timeoutMs: config.requestTimeoutMs },
+		);
+		const choice = response.choices[0];
+		const edit = choice ? parseNextEditCompletion(window, choice.text) : null;
+		const encodeOffset = (index: number) =>
+			request.use_bytes
+				? Buffer.byteLength(contents.slice(0, index), "utf8")
+				: index;
+
+		return {
+			autocomplete_id: randomUUID(),
+			start_index: encodeOffset(edit?.startIndex ?? cursorOffset),
+			end_index: encodeOffset(edit?.endIndex ?? cursorOffset),
+			completion: edit?.completion ?? "",
+			confidence: 1,
+			elapsed_time_ms: Date.now() - startTime,
+			finish_reason: choice?.finish_reason ?? null,
+		};
+	}
+
+	async trackMetrics(_event: AutocompleteMetricsRequest): Promise<void> {
+		// Generic completions servers have no metrics endpoint.
+	}
+}
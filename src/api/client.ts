@@ -1,30 +1,55 @@
-import * as http from "node:http";
 import * as os from "node:os";
+import * as path from "node:path";
 import * as vscode from "vscode";
-import type { ZodType } from "zod";
+import {
+	type BackendKind,
+	type ContextSourceSettings,
+	config,
+} from "~/core/config.ts";
+import type { SweepIgnore } from "~/core/sweep-ignore.ts";
 import type { LocalAutocompleteServer } from "~/services/local-server.ts";
-import { toUnixPath } from "~/utils/path.ts";
+import { pathRefersTo, toUnixPath } from "~/utils/path.ts";
 import {
 	isFileTooLarge,
 	utf8ByteOffsetAt,
 	utf8ByteOffsetToUtf16Offset,
 } from "~/utils/text.ts";
 import {
+	type AutocompleteBackend,
+	CompletionsServerBackend,
+	LocalServerBackend,
+	RemoteServerBackend,
+} from "./backends.ts";
+import { packContext } from "./context-packer.ts";
+import { type RequestError, toRequestError } from "./http.ts";
+import {
+	ResponseCache,
+	type ResponseCacheStats,
+	responseCacheKey,
+} from "./response-cache.ts";
+import {
+	countSentChunks,
 	fuseAndDedupRetrievalSnippets,
-	truncateRetrievalChunk,
 } from "./retrieval-chunks.ts";
 import {
+	type AutocompleteMetricsRequest,
 	type AutocompleteRequest,
 	AutocompleteRequestSchema,
 	type AutocompleteResponse,
-	AutocompleteResponseSchema,
 	type AutocompleteResult,
+	type ChunkReference,
 	type EditorDiagnostic,
 	type FileChunk,
 	type RecentBuffer,
 	type RecentChange,
 	type UserAction,
 } from "./schemas.ts";
+import {
+	type RedactedText,
+	SecretRedactor,
+	toOriginalOffset,
+	toRedactedOffset,
+} from "./secret-redaction.ts";
 
 export interface AutocompleteInput {
 	document: vscode.TextDocument;
@@ -36,25 +61,78 @@ export interface AutocompleteInput {
 	userActions: UserAction[];
 }
 
-const MAX_RETRIEVAL_CHUNKS = 16;
-const MAX_DEFINITION_CHUNKS = 6;
-const MAX_USAGE_CHUNKS = 6;
-const MAX_RETRIEVAL_CHUNK_LINES = 200;
+interface ResultDecodingContext {
+	/** Path of the requested file, as sent in the request. */
+	filePath: string;
+	/** The requested file as sent; response offsets index into it. */
+	fileContents: RedactedText;
+	redactor: SecretRedactor;
+	useBytes: boolean;
+	retrievalChunks: ChunkReference[];
+	numDefinitionsRetrieved: number;
+	numUsagesRetrieved: number;
+}
+
+interface BuiltRequest {
+	request: AutocompleteRequest;
+	numDefinitionsRetrieved: number;
+	numUsagesRetrieved: number;
+}
+
+interface RetrievedChunks {
+	chunks: FileChunk[];
+	definitionChunks: FileChunk[];
+	usageChunks: FileChunk[];
+}
+
 const RETRIEVAL_CONTEXT_LINES_ABOVE = 9;
 const RETRIEVAL_CONTEXT_LINES_BELOW = 9;
-const MAX_CLIPBOARD_LINES = 20;
-const MAX_DIAGNOSTICS = 50;
 
-export class ApiClient {
-	private localServer: LocalAutocompleteServer;
+export class ApiClient implements vscode.Disposable {
+	private backends: Record<BackendKind, AutocompleteBackend>;
+	private lastFailure: RequestError | null = null;
+	private responseCache = new ResponseCache<AutocompleteResult[]>();
+	private requestStatusEmitter = new vscode.EventEmitter<RequestError | null>();
+	private sweepIgnore: SweepIgnore;
+
+	/** Fires with the latest failure, or null once a request succeeds again. */
+	readonly onDidChangeRequestStatus = this.requestStatusEmitter.event;
+
+	constructor(localServer: LocalAutocompleteServer, sweepIgnore: SweepIgnore) {
+		this.sweepIgnore = sweepIgnore;
+		this.backends = {
+			local: new LocalServerBackend(localServer),
+			remote: new RemoteServerBackend(),
+			completions: new CompletionsServerBackend(),
+		};
+	}
+
+	private get backend(): AutocompleteBackend {
+		return this.backends[config.backend] ?? this.backends.local;
+	}
+
+	get lastRequestFailure(): RequestError | null {
+		return this.lastFailure;
+	}
+
+	getCacheStats(): ResponseCacheStats {
+		return this.responseCache.getStats();
+	}
 
-	constructor(localServer: LocalAutocompleteServer) {
-		this.localServer = localServer;
+	/** Forgets cached responses for `document`, e.g. after it was edited. */
+	invalidateCachedResponses(document: vscode.TextDocument): void {
+		this.responseCache.invalidate(this.getFilePath(document));
 	}
 
+	/**
+	 * Resolves with the first batch of results. When the backend streams more
+	 * completions after that, they are handed to `onLateResults` as they
+	 * arrive; returning false from it stops the stream.
+	 */
 	async getAutocomplete(
 		input: AutocompleteInput,
 		signal?: AbortSignal,
+		onLateResults?: (results: AutocompleteResult[]) => boolean,
 	): Promise<AutocompleteResult[] | null> {
 		const documentText = input.document.getText();
 		if (isFileTooLarge(documentText) || isFileTooLarge(input.originalContent)) {
@@ -65,7 +143,31 @@ export class ApiClient {
 			return null;
 		}
 
-		const requestData = await this.buildRequest(input);
+		const backend = this.backend;
+		const filePath = this.getFilePath(input.document);
+		const cacheKey = responseCacheKey({
+			backend: backend.kind,
+			filePath,
+			fileContents: documentText,
+			cursorPosition: utf8ByteOffsetAt(input.document, input.position),
+			recentChanges: this.formatRecentChanges(input.recentChanges),
+		});
+		const cached = this.responseCache.get(cacheKey);
+		if (cached) {
+			const { hitRate } = this.getCacheStats();
+			console.log(
+				`[Sweep] Serving cached autocomplete (hit rate ${(hitRate * 100).toFixed(0)}%)`,
+			);
+			return [...cached];
+		}
+
+		const redactor = new SecretRedactor();
+		const { request, numDefinitionsRetrieved, numUsagesRetrieved } =
+			await this.buildRequest(input);
+		const { request: requestData, fileContents } = this.redactRequest(
+			request,
+			redactor,
+		);
 
 		const parsedRequest = AutocompleteRequestSchema.safeParse(requestData);
 		if (!parsedRequest.success) {
@@ -76,36 +178,160 @@ export class ApiClient {
 			return null;
 		}
 
-		let response: AutocompleteResponse;
 		try {
-			await this.localServer.ensureServerRunning();
+			await backend.prepare();
 		} catch (error) {
-			console.error("[Sweep] Failed to start local server:", error);
+			console.error(
+				`[Sweep] Failed to prepare ${backend.kind} backend:`,
+				error,
+			);
 			return null;
 		}
 
-		const localUrl = `${this.localServer.getServerUrl()}/backend/next_edit_autocomplete`;
-		try {
-			response = await this.sendRequest(
-				JSON.stringify(parsedRequest.data),
-				localUrl,
-				AutocompleteResponseSchema,
-				signal,
-			);
-			this.localServer.reportSuccess();
-		} catch (error) {
-			if ((error as Error).name === "AbortError") {
+		const resultContext: ResultDecodingContext = {
+			filePath,
+			fileContents,
+			redactor,
+			useBytes: requestData.use_bytes,
+			retrievalChunks: requestData.retrieval_chunks.map((chunk) => ({
+				filePath: chunk.file_path,
+				startLine: chunk.start_line,
+				endLine: chunk.end_line,
+			})),
+			numDefinitionsRetrieved,
+			numUsagesRetrieved,
+		};
+
+		if (!backend.streamAutocomplete) {
+			let response: AutocompleteResponse;
+			try {
+				response = await backend.fetchAutocomplete(parsedRequest.data, signal);
+			} catch (error) {
+				this.handleRequestFailure(backend, error);
 				return null;
 			}
-			console.error("[Sweep] Local API request failed:", error);
-			this.localServer.reportFailure();
-			return null;
+			this.setLastFailure(null);
+			const results = await this.toAutocompleteResults(response, resultContext);
+			if (results.length === 0) return null;
+			this.cacheResults(cacheKey, filePath, results);
+			return results;
+		}
+
+		// The stream outlives the returned promise, so it gets its own
+		// controller that follows the caller's signal.
+		const streamController = new AbortController();
+		const onAbort = () => streamController.abort(signal?.reason);
+		signal?.addEventListener("abort", onAbort);
+
+		return new Promise((resolve) => {
+			let resolved = false;
+			const streamedResults: AutocompleteResult[] = [];
+			// Each response is decoded after the one before it, so results
+			// keep their streamed order.
+			let decoded = Promise.resolve();
+			const handleResponse = (response: AutocompleteResponse) => {
+				decoded = decoded.then(async () => {
+					const results = await this.toAutocompleteResults(
+						response,
+						resultContext,
+					);
+					if (results.length === 0) return;
+					streamedResults.push(...results);
+					this.cacheResults(cacheKey, filePath, streamedResults);
+					if (!resolved) {
+						resolved = true;
+						resolve(results);
+						return;
+					}
+					if (!onLateResults?.(results)) {
+						streamController.abort("late results no longer wanted");
+					}
+				});
+			};
+
+			(
+				backend.streamAutocomplete?.(
+					parsedRequest.data,
+					handleResponse,
+					streamController.signal,
+				) ?? Promise.resolve()
+			)
+				.then(
+					() => this.setLastFailure(null),
+					(error: unknown) => this.handleRequestFailure(backend, error),
+				)
+				.then(() => decoded)
+				.finally(() => {
+					signal?.removeEventListener("abort", onAbort);
+					if (!resolved) {
+						resolved = true;
+						resolve(null);
+					}
+				});
+		});
+	}
+
+	/**
+	 * Caches the results that edit the requesting file. Cross-file results
+	 * are left out: their offsets index into another file, whose edits do
+	 * not invalidate this entry.
+	 */
+	private cacheResults(
+		cacheKey: string,
+		filePath: string,
+		results: AutocompleteResult[],
+	): void {
+		const sameFileResults = results.filter((result) => !result.targetUri);
+		if (sameFileResults.length === 0) return;
+		this.responseCache.set(cacheKey, filePath, sameFileResults);
+	}
+
+	private handleRequestFailure(
+		backend: AutocompleteBackend,
+		error: unknown,
+	): void {
+		const requestError = toRequestError(error);
+		switch (requestError.kind) {
+			case "aborted":
+				// Cancellation is routine (the user kept typing), not a failure.
+				return;
+			case "timeout":
+				console.warn(
+					`[Sweep] ${backend.kind} API request timed out:`,
+					requestError.message,
+				);
+				break;
+			case "http-status":
+				console.error(
+					`[Sweep] ${backend.kind} API returned status ${requestError.status}`,
+				);
+				break;
+			case "invalid-response":
+				console.error(
+					`[Sweep] ${backend.kind} API sent an invalid response:`,
+					requestError.message,
+				);
+				break;
+			case "network":
+				console.error(
+					`[Sweep] ${backend.kind} API request failed:`,
+					requestError.message,
+				);
+				break;
 		}
+		this.setLastFailure(requestError);
+	}
 
-		const decodeOffset = requestData.use_bytes
-			? (index: number) => utf8ByteOffsetToUtf16Offset(documentText, index)
-			: (index: number) => index;
+	private setLastFailure(error: RequestError | null): void {
+		if (error === null && this.lastFailure === null) return;
+		this.lastFailure = error;
+		this.requestStatusEmitter.fire(error);
+	}
 
+	private async toAutocompleteResults(
+		response: AutocompleteResponse,
+		context: ResultDecodingContext,
+	): Promise<AutocompleteResult[]> {
 		const completions =
 			response.completions && response.completions.length > 0
 				? response.completions
@@ -116,31 +342,124 @@ export class ApiClient {
 							end_index: response.end_index,
 							completion: response.completion,
 							confidence: response.confidence,
+							file_path: response.file_path,
 						},
 					];
 
-		const results = completions
-			.map((completion): AutocompleteResult => {
-				return {
-					id: completion.autocomplete_id,
-					startIndex: decodeOffset(completion.start_index),
-					endIndex: decodeOffset(completion.end_index),
-					completion: completion.completion,
-					confidence: completion.confidence,
-				};
-			})
-			.filter((result) => result.completion.length > 0);
+		const results = await Promise.all(
+			completions.map(
+				async (completion): Promise<AutocompleteResult | null> => {
+					// Offsets of an edit in another file index into that file.
+					let targetDocument: vscode.TextDocument | null = null;
+					if (
+						completion.file_path &&
+						toUnixPath(completion.file_path) !== context.filePath
+					) {
+						const resolved = await this.resolveTargetDocument(
+							completion.file_path,
+						);
+						if (!resolved) {
+							console.log(
+								"[Sweep] Dropping edit for a file that cannot be found:",
+								completion.file_path,
+							);
+							return null;
+						}
+						if (this.getFilePath(resolved) !== context.filePath) {
+							if (this.sweepIgnore.isIgnored(resolved.uri)) {
+								console.log(
+									"[Sweep] Dropping edit for an ignored file:",
+									completion.file_path,
+								);
+								return null;
+							}
+							targetDocument = resolved;
+						}
+					}
+					const text = targetDocument?.getText() ?? context.fileContents.text;
+					const decodeOffset = (index: number, bias: "start" | "end") => {
+						const offset = context.useBytes
+							? utf8ByteOffsetToUtf16Offset(text, index)
+							: index;
+						// Other files were never sent whole, so were not redacted.
+						return targetDocument
+							? offset
+							: toOriginalOffset(context.fileContents, offset, bias);
+					};
 
-		if (results.length === 0) {
+					return {
+						id: completion.autocomplete_id,
+						startIndex: decodeOffset(completion.start_index, "start"),
+						endIndex: decodeOffset(completion.end_index, "end"),
+						completion: context.redactor.restore(completion.completion),
+						confidence: completion.confidence,
+						...(response.elapsed_time_ms !== undefined
+							? { elapsedTimeMs: response.elapsed_time_ms }
+							: {}),
+						...(targetDocument
+							? { targetUri: targetDocument.uri.toString() }
+							: {}),
+						retrievalChunks: context.retrievalChunks,
+						numDefinitionsRetrieved: context.numDefinitionsRetrieved,
+						numUsagesRetrieved: context.numUsagesRetrieved,
+					};
+				},
+			),
+		);
+		return results.filter(
+			(result): result is AutocompleteResult =>
+				result !== null && result.completion.length > 0,
+		);
+	}
+
+	/**
+	 * Finds the document a response path points at, loading it when it is
+	 * not open. Paths are matched as sent in requests, then as relative to a
+	 * workspace folder, and last as relative to some directory above an open
+	 * file, which only counts when it picks out exactly one.
+	 */
+	private async resolveTargetDocument(
+		filePath: string,
+	): Promise<vscode.TextDocument | null> {
+		const unixPath = toUnixPath(filePath);
+		const exactDocument = vscode.workspace.textDocuments.find(
+			(document) => this.getFilePath(document) === unixPath,
+		);
+		if (exactDocument) return exactDocument;
+
+		const candidates = path.isAbsolute(filePath)
+			? [vscode.Uri.file(filePath)]
+			: (vscode.workspace.workspaceFolders ?? []).map((folder) =>
+					vscode.Uri.joinPath(folder.uri, unixPath),
+				);
+		for (const uri of candidates) {
+			try {
+				return await vscode.workspace.openTextDocument(uri);
+			} catch {
+				// Not in this folder; try the next one.
+			}
+		}
+
+		const suffixMatches = vscode.workspace.textDocuments.filter((document) =>
+			pathRefersTo(filePath, this.getFilePath(document)),
+		);
+		if (suffixMatches.length > 1) {
+			console.log("[Sweep] Path matches several open files:", {
+				filePath,
+				matches: suffixMatches.length,
+			});
 			return null;
 		}
+		return suffixMatches[0] ?? null;
+	}
 
-		return results;
+	async trackAutocompleteMetrics(
+		event: AutocompleteMetricsRequest,
+	): Promise<void> {
+		await this.backend.trackMetrics(event);
 	}
 
-	private async buildRequest(
-		input: AutocompleteInput,
-	): Promise<AutocompleteRequest> {
+	private async buildRequest(input: AutocompleteInput): Promise<BuiltRequest> {
 		const {
 			document,
 			position,
@@ -151,36 +470,108 @@ export class ApiClient {
 			userActions,
 		} = input;
 
-		const filePath = toUnixPath(document.uri.fsPath) || "untitled";
-		const recentChangesText = this.formatRecentChanges(recentChanges);
-		const fileChunks = this.buildFileChunks(recentBuffers);
-		const retrievalChunks = await this.buildRetrievalChunks(
+		const sources = config.contextSources;
+		const contextDiagnostics = sources.diagnostics.enabled
+			? diagnostics.slice(0, sources.diagnostics.maxCount)
+			: [];
+		const filePath = this.getFilePath(document);
+		const fileContents = document.getText();
+		const retrieved = await this.buildRetrievalChunks(
 			document,
 			position,
 			filePath,
-			diagnostics,
+			contextDiagnostics,
+			sources,
 		);
+		const packed = packContext({
+			budgetTokens: config.contextTokenBudget,
+			currentFileContents: fileContents,
+			fileChunks: this.buildFileChunks(recentBuffers),
+			retrievalChunks: retrieved.chunks,
+			recentChanges,
+		});
+		console.log("[Sweep] Packed request context", {
+			usedTokens: packed.usedTokens,
+			fileChunks: packed.fileChunks.length,
+			retrievalChunks: packed.retrievalChunks.length,
+			recentChanges: packed.recentChanges.length,
+		});
 		const editorDiagnostics = this.buildEditorDiagnostics(
 			document,
-			diagnostics,
+			contextDiagnostics,
 		);
 
-		return {
+		const request: AutocompleteRequest = {
 			debug_info: this.getDebugInfo(),
 			repo_name: this.getRepoName(document),
 			file_path: filePath,
-			file_contents: document.getText(),
+			file_contents: fileContents,
 			original_file_contents: originalContent,
 			cursor_position: utf8ByteOffsetAt(document, position),
-			recent_changes: recentChangesText,
+			recent_changes: this.formatRecentChanges(packed.recentChanges),
 			changes_above_cursor: true,
 			multiple_suggestions: true,
-			file_chunks: fileChunks,
-			retrieval_chunks: retrievalChunks,
+			file_chunks: packed.fileChunks,
+			retrieval_chunks: packed.retrievalChunks,
 			editor_diagnostics: editorDiagnostics,
 			recent_user_actions: userActions,
 			use_bytes: true,
 		};
+		// Counted from what was sent, after fusing and packing.
+		return {
+			request,
+			numDefinitionsRetrieved: countSentChunks(
+				retrieved.definitionChunks,
+				packed.retrievalChunks,
+			),
+			numUsagesRetrieved: countSentChunks(
+				retrieved.usageChunks,
+				packed.retrievalChunks,
+			),
+		};
+	}
+
+	/**
+	 * Replaces secrets in every piece of text the request carries. Also
+	 * returns the redacted `file_contents`, which response offsets index into.
+	 */
+	private redactRequest(
+		request: AutocompleteRequest,
+		redactor: SecretRedactor,
+	): { request: AutocompleteRequest; fileContents: RedactedText } {
+		const fileContents = redactor.redact(request.file_contents);
+		const cursorOffset = toRedactedOffset(
+			fileContents,
+			request.use_bytes
+				? utf8ByteOffsetToUtf16Offset(
+						request.file_contents,
+						request.cursor_position,
+					)
+				: request.cursor_position,
+		);
+		const redactChunk = (chunk: FileChunk): FileChunk => ({
+			...chunk,
+			content: redactor.redact(chunk.content).text,
+		});
+
+		const redactedRequest: AutocompleteRequest = {
+			...request,
+			file_contents: fileContents.text,
+			original_file_contents: redactor.redact(request.original_file_contents)
+				.text,
+			cursor_position: request.use_bytes
+				? Buffer.byteLength(fileContents.text.slice(0, cursorOffset), "utf8")
+				: cursorOffset,
+			recent_changes: redactor.redact(request.recent_changes).text,
+			file_chunks: request.file_chunks.map(redactChunk),
+			retrieval_chunks: request.retrieval_chunks.map(redactChunk),
+		};
+		if (redactor.redactionCount > 0) {
+			console.log("[Sweep] Redacted secrets from autocomplete request", {
+				count: redactor.redactionCount,
+			});
+		}
+		return { request: redactedRequest, fileContents };
 	}
 
 	private formatRecentChanges(changes: RecentChange[]): string {
@@ -208,7 +599,6 @@ export class ApiClient {
 	private buildFileChunks(buffers: RecentBuffer[]): FileChunk[] {
 		return buffers
 			.filter((buffer) => !isFileTooLarge(buffer.content))
-			.slice(0, 3)
 			.map((buffer) => {
 				if (buffer.startLine !== undefined && buffer.endLine !== undefined) {
 					return {
@@ -236,11 +626,22 @@ export class ApiClient {
 		position: vscode.Position,
 		currentFilePath: string,
 		diagnostics: vscode.Diagnostic[],
-	): Promise<FileChunk[]> {
+		sources: ContextSourceSettings,
+	): Promise<RetrievedChunks> {
 		const [definitionChunks, usageChunks, clipboardChunks] = await Promise.all([
-			this.buildDefinitionChunks(document, position),
-			this.buildUsageChunks(document, position),
-			this.buildClipboardChunks(),
+			sources.definitions.enabled
+				? this.buildDefinitionChunks(
+						document,
+						position,
+						sources.definitions.maxChunks,
+					)
+				: [],
+			sources.usages.enabled
+				? this.buildUsageChunks(document, position, sources.usages.maxChunks)
+				: [],
+			sources.clipboard.enabled
+				? this.buildClipboardChunks(sources.clipboard.maxLines)
+				: [],
 		]);
 
 		const chunks = [
@@ -250,10 +651,13 @@ export class ApiClient {
 			...definitionChunks,
 		]
 			.filter((chunk) => chunk.file_path !== currentFilePath)
-			.map((chunk) => truncateRetrievalChunk(chunk, MAX_RETRIEVAL_CHUNK_LINES))
 			.filter((chunk) => chunk.content.trim().length > 0);
 
-		return fuseAndDedupRetrievalSnippets(chunks).slice(-MAX_RETRIEVAL_CHUNKS);
+		return {
+			chunks: fuseAndDedupRetrievalSnippets(chunks),
+			definitionChunks,
+			usageChunks,
+		};
 	}
 
 	private buildDiagnosticsTextChunk(
@@ -263,8 +667,7 @@ export class ApiClient {
 		if (diagnostics.length === 0) return [];
 
 		let content = "";
-		const limitedDiagnostics = diagnostics.slice(0, MAX_DIAGNOSTICS);
-		for (const d of limitedDiagnostics) {
+		for (const d of diagnostics) {
 			const severity = this.formatSeverity(d.severity);
 			const line = d.range.start.line + 1;
 			const col = d.range.start.character + 1;
@@ -275,7 +678,7 @@ export class ApiClient {
 			{
 				file_path: "diagnostics",
 				start_line: 1,
-				end_line: limitedDiagnostics.length,
+				end_line: diagnostics.length,
 				content,
 			},
 		];
@@ -285,7 +688,7 @@ export class ApiClient {
 		document: vscode.TextDocument,
 		diagnostics: vscode.Diagnostic[],
 	): EditorDiagnostic[] {
-		return diagnostics.slice(0, MAX_DIAGNOSTICS).map((diagnostic) => ({
+		return diagnostics.map((diagnostic) => ({
 			line: diagnostic.range.start.line + 1,
 			start_offset: document.offsetAt(diagnostic.range.start),
 			end_offset: document.offsetAt(diagnostic.range.end),
@@ -295,12 +698,12 @@ export class ApiClient {
 		}));
 	}
 
-	private async buildClipboardChunks(): Promise<FileChunk[]> {
+	private async buildClipboardChunks(maxLines: number): Promise<FileChunk[]> {
 		try {
 			const clipboard = (await vscode.env.clipboard.readText()).trim();
 			if (!clipboard) return [];
 
-			const lines = clipboard.split(/\r?\n/).slice(0, MAX_CLIPBOARD_LINES);
+			const lines = clipboard.split(/\r?\n/).slice(0, maxLines);
 			const content = lines.join("\n").trim();
 			if (!content) return [];
 
@@ -321,6 +724,7 @@ export class ApiClient {
 	private async buildDefinitionChunks(
 		document: vscode.TextDocument,
 		position: vscode.Position,
+		maxChunks: number,
 	): Promise<FileChunk[]> {
 		try {
 			const results =
@@ -330,7 +734,7 @@ export class ApiClient {
 			const locations = results
 				.map((result) => this.normalizeLocation(result))
 				.filter((location): location is vscode.Location => location !== null);
-			return this.buildLocationChunks(locations, MAX_DEFINITION_CHUNKS);
+			return this.buildLocationChunks(locations, maxChunks);
 		} catch {
 			return [];
 		}
@@ -339,6 +743,7 @@ export class ApiClient {
 	private async buildUsageChunks(
 		document: vscode.TextDocument,
 		position: vscode.Position,
+		maxChunks: number,
 	): Promise<FileChunk[]> {
 		try {
 			const results =
@@ -347,7 +752,7 @@ export class ApiClient {
 					document.uri,
 					position,
 				)) ?? [];
-			return this.buildLocationChunks(results, MAX_USAGE_CHUNKS);
+			return this.buildLocationChunks(results, maxChunks);
 		} catch {
 			return [];
 		}
@@ -389,6 +794,7 @@ export class ApiClient {
 	private async buildChunkFromLocation(
 		location: vscode.Location,
 	): Promise<FileChunk | null> {
+		if (this.sweepIgnore.isIgnored(location.uri)) return null;
 		let targetDocument: vscode.TextDocument;
 		try {
 			targetDocument = await vscode.workspace.openTextDocument(location.uri);
@@ -452,108 +858,17 @@ export class ApiClient {
 		return `VSCode (${vscode.version}) - OS: ${os.platform()} ${os.arch()} - Sweep v${extensionVersion}`;
 	}
 
+	private getFilePath(document: vscode.TextDocument): string {
+		return toUnixPath(document.uri.fsPath) || "untitled";
+	}
+
 	private getRepoName(document: vscode.TextDocument): string {
 		return (
 			vscode.workspace.getWorkspaceFolder(document.uri)?.name || "untitled"
 		);
 	}
 
-	private sendRequest<T>(
-		body: string,
-		url: string,
-		schema: ZodType<T>,
-		signal?: AbortSignal,
-	): Promise<T> {
-		return new Promise((resolve, reject) => {
-			let settled = false;
-			const finish = (fn: () => void) => {
-				if (settled) return;
-				settled = true;
-				cleanup();
-				fn();
-			};
-
-			const parsedUrl = new URL(url);
-			const options: http.RequestOptions = {
-				hostname: parsedUrl.hostname,
-				port: parsedUrl.port || 80,
-				path: `${parsedUrl.pathname}${parsedUrl.search}`,
-				method: "POST",
-				headers: {
-					"Content-Type": "application/json",
-					"Content-Length": Buffer.byteLength(body),
-				},
-			};
-
-			const req = http.request(options, (res) => {
-				let data = "";
-				res.on("data", (chunk) => {
-					data += chunk.toString();
-				});
-				res.on("end", () => {
-					if (res.statusCode !== 200) {
-						console.error(
-							`[Sweep] Local request failed with status ${res.statusCode}: ${data}`,
-						);
-						finish(() =>
-							reject(
-								new Error(`Local request failed with status ${res.statusCode}`),
-							),
-						);
-						return;
-					}
-					try {
-						const parsedJson: unknown = JSON.parse(data);
-						const parsed = schema.safeParse(parsedJson);
-						if (!parsed.success) {
-							finish(() =>
-								reject(
-									new Error(`Invalid local response: ${parsed.error.message}`),
-								),
-							);
-							return;
-						}
-						finish(() => resolve(parsed.data));
-					} catch {
-						finish(() =>
-							reject(new Error("Failed to parse local response JSON")),
-						);
-					}
-				});
-			});
-
-			const onError = (error: Error) => {
-				finish(() =>
-					reject(new Error(`Local request error: ${error.message}`)),
-				);
-			};
-
-			const onAbort = () => {
-				const abortError = new Error("Request aborted");
-				abortError.name = "AbortError";
-				req.destroy(abortError);
-				finish(() => reject(abortError));
-			};
-
-			const cleanup = () => {
-				req.off("error", onError);
-				if (signal) {
-					signal.removeEventListener("abort", onAbort);
-				}
-			};
-
-			req.on("error", onError);
-
-			if (signal) {
-				if (signal.aborted) {
-					onAbort();
-					return;
-				}
-				signal.addEventListener("abort", onAbort);
-			}
-
-			req.write(body);
-			req.end();
-		});
+	dispose(): void {
+		this.requestStatusEmitter.dispose();
 	}
 }
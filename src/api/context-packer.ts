@@ -0,0 +1,173 @@
+import { truncateRetrievalChunk } from "./retrieval-chunks.ts";
+import type { FileChunk, RecentChange } from "./schemas.ts";
+
+// Rough average for source code; good enough to keep requests in budget.
+const CHARS_PER_TOKEN = 4;
+// How much each kind of piece is worth relative to the others.
+const KIND_WEIGHTS: Record<ContextPieceKind, number> = {
+	recentChange: 1,
+	retrievalChunk: 0.9,
+	fileChunk: 0.7,
+};
+// Each step down a kind's ranking multiplies a piece's value by this.
+const RANK_DECAY = 0.8;
+// Trimming a chunk below this many tokens leaves too little to be useful.
+const MIN_TRIMMED_CHUNK_TOKENS = 64;
+// Share of the budget kept for other pieces however large the current file.
+const RESERVED_CONTEXT_SHARE = 0.25;
+
+type ContextPieceKind = "recentChange" | "retrievalChunk" | "fileChunk";
+
+export interface ContextPackInput {
+	budgetTokens: number;
+	/** Sent whole, since response offsets index into it. */
+	currentFileContents: string;
+	/** Most recent first. */
+	fileChunks: FileChunk[];
+	/** Least relevant first, as they are ordered in requests. */
+	retrievalChunks: FileChunk[];
+	/** Most recent first. */
+	recentChanges: RecentChange[];
+}
+
+export interface PackedContext {
+	fileChunks: FileChunk[];
+	retrievalChunks: FileChunk[];
+	recentChanges: RecentChange[];
+	/** Includes the whole current file, so may exceed the budget. */
+	usedTokens: number;
+}
+
+interface Candidate {
+	kind: ContextPieceKind;
+	index: number;
+	value: number;
+	tokens: number;
+}
+
+export function estimateTokens(text: string): number {
+	return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+function estimateChunkTokens(chunk: FileChunk): number {
+	return estimateTokens(chunk.file_path) + estimateTokens(chunk.content);
+}
+
+/**
+ * Fills `budgetTokens` with the most valuable context pieces. The current
+ * file is always sent and counted first, but against no more than its
+ * share of the budget, so that a large file still leaves room for the rest.
+ * The remaining pieces are taken in order of value, and a chunk that does
+ * not fit whole is trimmed to its leading lines. Each kind keeps its
+ * original order in the result.
+ */
+export function packContext(input: ContextPackInput): PackedContext {
+	const candidates: Candidate[] = [
+		...input.recentChanges.map((change, rank) =>
+			candidate("recentChange", rank, rank, estimateTokens(change.diff)),
+		),
+		...input.retrievalChunks.map((chunk, index) =>
+			candidate(
+				"retrievalChunk",
+				index,
+				input.retrievalChunks.length - 1 - index,
+				estimateChunkTokens(chunk),
+			),
+		),
+		...input.fileChunks.map((chunk, rank) =>
+			candidate("fileChunk", rank, rank, estimateChunkTokens(chunk)),
+		),
+	].sort((a, b) => b.value - a.value);
+
+	const currentFileTokens = estimateTokens(input.currentFileContents);
+	const contextBudget =
+		input.budgetTokens -
+		Math.min(
+			currentFileTokens,
+			Math.floor(input.budgetTokens * (1 - RESERVED_CONTEXT_SHARE)),
+		);
+	let contextTokens = 0;
+	const keptRecentChanges = new Set<number>();
+	const keptRetrievalChunks = new Map<number, FileChunk>();
+	const keptFileChunks = new Map<number, FileChunk>();
+
+	for (const { kind, index, tokens } of candidates) {
+		const remaining = contextBudget - contextTokens;
+		if (remaining <= 0) break;
+
+		if (kind === "recentChange") {
+			// Diffs are dropped rather than trimmed, which would break hunks.
+			if (tokens > remaining) continue;
+			keptRecentChanges.add(index);
+			contextTokens += tokens;
+			continue;
+		}
+
+		const chunks =
+			kind === "retrievalChunk" ? input.retrievalChunks : input.fileChunks;
+		const kept =
+			kind === "retrievalChunk" ? keptRetrievalChunks : keptFileChunks;
+		const chunk = chunks[index];
+		if (!chunk) continue;
+		const packed = tokens <= remaining ? chunk : trimChunk(chunk, remaining);
+		if (!packed) continue;
+		kept.set(index, packed);
+		contextTokens += estimateChunkTokens(packed);
+	}
+
+	return {
+		fileChunks: collectInOrder(input.fileChunks.length, keptFileChunks),
+		retrievalChunks: collectInOrder(
+			input.retrievalChunks.length,
+			keptRetrievalChunks,
+		),
+		recentChanges: input.recentChanges.filter((_change, index) =>
+			keptRecentChanges.has(index),
+		),
+		usedTokens: currentFileTokens + contextTokens,
+	};
+}
+
+function candidate(
+	kind: ContextPieceKind,
+	index: number,
+	rank: number,
+	tokens: number,
+): Candidate {
+	return {
+		kind,
+		index,
+		value: KIND_WEIGHTS[kind] * RANK_DECAY ** rank,
+		tokens,
+	};
+}
+
+/** Keeps the leading lines of `chunk` that fit in `budgetTokens`. */
+function trimChunk(chunk: FileChunk, budgetTokens: number): FileChunk | null {
+	if (budgetTokens < MIN_TRIMMED_CHUNK_TOKENS) return null;
+	const maxChars =
+		(budgetTokens - estimateTokens(chunk.file_path)) * CHARS_PER_TOKEN;
+	let chars = 0;
+	let lineCount = 0;
+	for (const line of chunk.content.split("\n")) {
+		// Lines after the first also take the newline joining them.
+		const nextChars = chars + (lineCount > 0 ? 1 : 0) + line.length;
+		if (nextChars > maxChars) break;
+		chars = nextChars;
+		lineCount++;
+	}
+	if (lineCount === 0) return null;
+	return truncateRetrievalChunk(chunk, lineCount);
+}
+
+function collectInOrder(
+	length: number,
+	kept: Map<number, FileChunk>,
+): FileChunk[] {
+	const chunks: FileChunk[] = [];
+	for (let index = 0; index < length; index++) {
+		const chunk = kept.get(index);
+		if (chunk) chunks.push(chunk);
+	}
+	return chunks;
+}
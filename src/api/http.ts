@@ -0,0 +1,333 @@
+import * as http from "node:http";
+import * as https from "node:https";
+import type { ZodType } from "zod";
+
+export interface PostJsonOptions {
+	signal?: AbortSignal | undefined;
+	headers?: Record<string, string>;
+	/**
+	 * Deadline for the whole request, or for the first message of a stream;
+	 * rejects with a "timeout" error.
+	 */
+	timeoutMs?: number;
+}
+
+export type RequestFailureKind =
+	| "timeout"
+	| "aborted"
+	| "http-status"
+	| "invalid-response"
+	| "network";
+
+export class RequestError extends Error {
+	readonly kind: RequestFailureKind;
+	readonly status: number | undefined;
+
+	constructor(
+		kind: RequestFailureKind,
+		message: string,
+		options?: { status?: number },
+	) {
+		super(message);
+		this.kind = kind;
+		this.status = options?.status;
+		// Keep the conventional names so `error.name === "AbortError"` checks
+		// continue to work for cancellation.
+		this.name =
+			kind === "aborted"
+				? "AbortError"
+				: kind === "timeout"
+					? "TimeoutError"
+					: "RequestError";
+	}
+}
+
+export function toRequestError(error: unknown): RequestError {
+	if (error instanceof RequestError) return error;
+	const message = error instanceof Error ? error.message : String(error);
+	return new RequestError("network", message);
+}
+
+const MAX_SOCKETS_PER_HOST = 4;
+
+// Shared so that back-to-back requests to the same server reuse a socket
+// instead of paying for a new connection each time.
+export const keepAliveHttpAgent = new http.Agent({
+	keepAlive: true,
+	maxSockets: MAX_SOCKETS_PER_HOST,
+});
+const keepAliveHttpsAgent = new https.Agent({
+	keepAlive: true,
+	maxSockets: MAX_SOCKETS_PER_HOST,
+});
+
+const STREAM_ACCEPT_HEADER =
+	"application/x-ndjson, text/event-stream, application/json";
+const SSE_DONE_MARKER = "[DONE]";
+
+export function postJson<T>(
+	url: string,
+	body: string,
+	schema: ZodType<T>,
+	options: PostJsonOptions = {},
+): Promise<T> {
+	return new Promise((resolve, reject) => {
+		sendPost(url, body, options, {
+			onEnd: (data) => {
+				resolve(parseJson(data, schema));
+			},
+			onError: reject,
+		});
+	});
+}
+
+/**
+ * Posts `body` and calls `onMessage` for every message of a streamed
+ * response, as soon as it arrives. NDJSON and server-sent events are read
+ * incrementally; a plain JSON response is treated as a single message.
+ */
+export function postJsonStream<T>(
+	url: string,
+	body: string,
+	schema: ZodType<T>,
+	onMessage: (message: T) => void,
+	options: PostJsonOptions = {},
+): Promise<void> {
+	return new Promise((resolve, reject) => {
+		let format: "ndjson" | "sse" | "json" = "json";
+		let buffered = "";
+
+		/** Returns whether the line held a message. */
+		const handleLine = (line: string): boolean => {
+			const trimmed = line.trim();
+			if (!trimmed) return false;
+			let payload = trimmed;
+			if (format === "sse") {
+				if (!trimmed.startsWith("data:")) return false;
+				payload = trimmed.slice("data:".length).trim();
+				if (payload === SSE_DONE_MARKER) return false;
+			}
+			onMessage(parseJson(payload, schema));
+			return true;
+		};
+
+		sendPost(
+			url,
+			body,
+			{
+				...options,
+				headers: { Accept: STREAM_ACCEPT_HEADER, ...options.headers },
+			},
+			{
+				onResponse: (res) => {
+					const contentType = res.headers["content-type"] ?? "";
+					if (contentType.includes("text/event-stream")) {
+						format = "sse";
+					} else if (contentType.includes("ndjson")) {
+						format = "ndjson";
+					}
+				},
+				onData: (chunk, clearDeadline) => {
+					if (format === "json") return;
+					buffered += chunk;
+					let newlineIndex = buffered.indexOf("\n");
+					while (newlineIndex !== -1) {
+						const line = buffered.slice(0, newlineIndex);
+						buffered = buffered.slice(newlineIndex + 1);
+						// A stream may keep sending for as long as it likes once it
+						// has produced something.
+						if (handleLine(line)) clearDeadline();
+						newlineIndex = buffered.indexOf("\n");
+					}
+				},
+				onEnd: (data) => {
+					if (format === "json") {
+						onMessage(parseJson(data, schema));
+					} else {
+						handleLine(buffered);
+					}
+					resolve();
+				},
+				onError: reject,
+			},
+		);
+	});
+}
+
+interface ResponseHandlers {
+	onResponse?: (res: http.IncomingMessage) => void;
+	/**
+	 * Called per chunk; throwing rejects the request. `clearDeadline` lifts
+	 * the timeout for the rest of the response.
+	 */
+	onData?: (chunk: string, clearDeadline: () => void) => void;
+	/** Called with the full body; throwing rejects the request. */
+	onEnd: (data: string) => void;
+	onError: (error: Error) => void;
+}
+
+function sendPost(
+	url: string,
+	body: string,
+	options: PostJsonOptions,
+	handlers: ResponseHandlers,
+): void {
+	const { signal, headers = {}, timeoutMs } = options;
+	let settled = false;
+	let timeout: ReturnType<typeof setTimeout> | null = null;
+	const finish = (fn: () => void) => {
+		if (settled) return;
+		settled = true;
+		cleanup();
+		fn();
+	};
+	const fail = (error: Error) => {
+		finish(() => handlers.onError(error));
+	};
+
+	const parsedUrl = new URL(url);
+	const isHttps = parsedUrl.protocol === "https:";
+	const requestOptions: http.RequestOptions = {
+		hostname: parsedUrl.hostname,
+		port: parsedUrl.port || (isHttps ? 443 : 80),
+		path: `${parsedUrl.pathname}${parsedUrl.search}`,
+		method: "POST",
+		agent: isHttps ? keepAliveHttpsAgent : keepAliveHttpAgent,
+		headers: {
+			...headers,
+			"Content-Type": "application/json",
+			"Content-Length": Buffer.byteLength(body),
+		},
+	};
+
+	const request = isHttps ? https.request : http.request;
+	let req: http.ClientRequest | null = null;
+	const send = (isRetry: boolean): void => {
+		let responded = false;
+		const attempt = request(requestOptions, (res) => {
+			responded = true;
+			handleResponse(res);
+		});
+		req = attempt;
+		attempt.on("error", (error: NodeJS.ErrnoException) => {
+			if (settled) return;
+			// A kept-alive socket the server has since closed fails before any
+			// response, so the request never reached the server; send it once
+			// more on a fresh socket rather than reporting a failure.
+			if (
+				!isRetry &&
+				!responded &&
+				attempt.reusedSocket &&
+				error.code === "ECONNRESET"
+			) {
+				console.log("[Sweep] Retrying request on a fresh connection");
+				send(true);
+				return;
+			}
+			fail(new RequestError("network", `Request error: ${error.message}`));
+		});
+		attempt.write(body);
+		attempt.end();
+	};
+
+	const handleResponse = (res: http.IncomingMessage): void => {
+		res.setEncoding("utf8");
+		const isOk = res.statusCode === 200;
+		if (isOk) handlers.onResponse?.(res);
+
+		let data = "";
+		res.on("data", (chunk: string) => {
+			if (settled) return;
+			data += chunk;
+			if (!isOk || !handlers.onData) return;
+			try {
+				handlers.onData(chunk, clearDeadline);
+			} catch (error) {
+				req?.destroy();
+				fail(toRequestError(error));
+			}
+		});
+		res.on("end", () => {
+			if (settled) return;
+			if (!isOk) {
+				console.error(
+					`[Sweep] Request to ${parsedUrl.host} failed with status ${res.statusCode}: ${data}`,
+				);
+				fail(
+					new RequestError(
+						"http-status",
+						`Request failed with status ${res.statusCode}`,
+						res.statusCode !== undefined ? { status: res.statusCode } : {},
+					),
+				);
+				return;
+			}
+			try {
+				handlers.onEnd(data);
+				finish(() => {});
+			} catch (error) {
+				fail(toRequestError(error));
+			}
+		});
+	};
+
+	const onAbort = () => {
+		const reason = typeof signal?.reason === "string" ? signal.reason : null;
+		const abortError = new RequestError(
+			"aborted",
+			reason ? `Request aborted: ${reason}` : "Request aborted",
+		);
+		req?.destroy(abortError);
+		fail(abortError);
+	};
+
+	const onTimeout = () => {
+		req?.destroy();
+		fail(new RequestError("timeout", `Request timed out after ${timeoutMs}ms`));
+	};
+
+	const clearDeadline = () => {
+		if (timeout) {
+			clearTimeout(timeout);
+			timeout = null;
+		}
+	};
+
+	const cleanup = () => {
+		clearDeadline();
+		// The error listener stays attached: destroying a request still emits
+		// "error", and `fail` ignores anything after the request settled.
+		if (signal) {
+			signal.removeEventListener("abort", onAbort);
+		}
+	};
+
+	if (signal?.aborted) {
+		onAbort();
+		return;
+	}
+	signal?.addEventListener("abort", onAbort);
+
+	if (timeoutMs !== undefined && timeoutMs > 0) {
+		timeout = setTimeout(onTimeout, timeoutMs);
+	}
+
+	send(false);
+}
+
+function parseJson<T>(data: string, schema: ZodType<T>): T {
+	let parsedJson: unknown;
+	try {
+		parsedJson = JSON.parse(data);
+	} catch {
+		throw new RequestError("invalid-response", "Failed to parse response JSON");
+	}
+	const parsed = schema.safeParse(parsedJson);
+	if (!parsed.success) {
+		throw new RequestError(
+			"invalid-response",
+			`Invalid response: ${parsed.error.message}`,
+		);
+	}
+	return parsed.data;
+}
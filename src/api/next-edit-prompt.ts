@@ -0,0 +1,201 @@
+import { STOP_TOKENS, SWEEP_FILE_SEP_TOKEN } from "~/core/constants.ts";
+import type { FileChunk } from "./schemas.ts";
+
+const WINDOW_LINES_ABOVE = 10;
+const WINDOW_LINES_BELOW = 10;
+
+export interface NextEditPromptInput {
+	filePath: string;
+	originalContents: string;
+	currentContents: string;
+	/** UTF-16 offset of the cursor in `currentContents`. */
+	cursorOffset: number;
+	fileChunks: FileChunk[];
+	retrievalChunks: FileChunk[];
+	/** Recent changes as formatted by `ApiClient` ("File: path:" + hunks). */
+	recentChanges: string;
+}
+
+export interface EditWindow {
+	/** UTF-16 offsets of the window in the current contents. */
+	startOffset: number;
+	endOffset: number;
+	text: string;
+}
+
+export interface NextEditPrompt {
+	prompt: string;
+	window: EditWindow;
+}
+
+export interface ParsedNextEdit {
+	startIndex: number;
+	endIndex: number;
+	completion: string;
+}
+
+/**
+ * Builds the Sweep next-edit prompt: context files, recent diffs, then the
+ * original and current window around the cursor, leaving the model to write
+ * the updated window.
+ */
+export function buildNextEditPrompt(
+	input: NextEditPromptInput,
+): NextEditPrompt {
+	const currentLines = input.currentContents.split("\n");
+	const cursorLine =
+		input.currentContents.slice(0, input.cursorOffset).split("\n").length - 1;
+	const startLine = Math.max(0, cursorLine - WINDOW_LINES_ABOVE);
+	const endLine = Math.min(
+		currentLines.length,
+		cursorLine + WINDOW_LINES_BELOW + 1,
+	);
+
+	const window = sliceLines(input.currentContents, startLine, endLine);
+	const originalWindow = sliceLines(input.originalContents, startLine, endLine);
+
+	const sections = [
+		...input.retrievalChunks.map((chunk) =>
+			fileSection(chunk.file_path, chunk.content),
+		),
+		...input.fileChunks.map((chunk) =>
+			fileSection(chunk.file_path, chunk.content),
+		),
+		...parseRecentChanges(input.recentChanges).map((change) =>
+			fileSection(
+				`${change.path}.diff`,
+				`original:\n${change.original}\nupdated:\n${change.updated}`,
+			),
+		),
+		fileSection(`original/${input.filePath}`, originalWindow.text),
+		fileSection(`current/${input.filePath}`, window.text),
+	];
+
+	return {
+		prompt: `${sections.join("\n")}\n${SWEEP_FILE_SEP_TOKEN}updated/${input.filePath}\n`,
+		window,
+	};
+}
+
+/**
+ * Turns the model's rewritten window into the smallest replacement of the
+ * current contents, or null when the model left the window unchanged.
+ */
+export function parseNextEditCompletion(
+	window: EditWindow,
+	modelOutput: string,
+): ParsedNextEdit | null {
+	let updated = stripStopTokens(modelOutput);
+	if (window.text.endsWith("\n") && !updated.endsWith("\n")) {
+		updated += "\n";
+	}
+	if (updated === window.text) return null;
+
+	const original = window.text;
+	const maxPrefix = Math.min(original.length, updated.length);
+	let prefix = 0;
+	while (prefix < maxPrefix && original[prefix] === updated[prefix]) {
+		prefix++;
+	}
+
+	let suffix = 0;
+	while (
+		suffix < maxPrefix - prefix &&
+		original[original.length - 1 - suffix] ===
+			updated[updated.length - 1 - suffix]
+	) {
+		suffix++;
+	}
+
+	return {
+		startIndex: window.startOffset + prefix,
+		endIndex: window.startOffset + original.length - suffix,
+		completion: updated.slice(prefix, updated.length - suffix),
+	};
+}
+
+function stripStopTokens(text: string): string {
+	let end = text.length;
+	for (const token of STOP_TOKENS) {
+		const index = text.indexOf(token);
+		if (index !== -1 && index < end) end = index;
+	}
+	return text.slice(0, end);
+}
+
+function sliceLines(
+	contents: string,
+	startLine: number,
+	endLine: number,
+): EditWindow {
+	const lines = contents.split("\n");
+	const clampedStart = Math.min(startLine, lines.length);
+	const clampedEnd = Math.max(clampedStart, Math.min(endLine, lines.length));
+
+	let startOffset = 0;
+	for (let i = 0; i < clampedStart; i++) {
+		startOffset += (lines[i]?.length ?? 0) + 1;
+	}
+	let endOffset = startOffset;
+	for (let i = clampedStart; i < clampedEnd; i++) {
+		endOffset += (lines[i]?.length ?? 0) + 1;
+	}
+	endOffset = Math.min(endOffset, contents.length);
+	startOffset = Math.min(startOffset, endOffset);
+
+	return {
+		startOffset,
+		endOffset,
+		text: contents.slice(startOffset, endOffset),
+	};
+}
+
+function fileSection(path: string, content: string): string {
+	return `${SWEEP_FILE_SEP_TOKEN}${path}\n${content}`;
+}
+
+function parseRecentChanges(
+	recentChanges: string,
+): Array<{ path: string; original: string; updated: string }> {
+	const changes: Array<{
+		path: string;
+		original: string[];
+		updated: string[];
+	}> = [];
+	let path: string | null = null;
+	let current: { path: string; original: string[]; updated: string[] } | null =
+		null;
+
+	for (const line of recentChanges.split("\n")) {
+		const fileMatch = /^File: (.*):$/.exec(line);
+		if (fileMatch) {
+			path = fileMatch[1] ?? null;
+			current = null;
+			continue;
+		}
+		// Context lines always carry a leading space, so blank lines only
+		// separate blocks.
+		if (!path || line === "") continue;
+		if (line.startsWith("@@") || !current) {
+			current = { path, original: [], updated: [] };
+			changes.push(current);
+			if (line.startsWith("@@")) continue;
+		}
+
+		if (line.startsWith("-")) {
+			current.original.push(line.slice(1));
+		} else if (line.startsWith("+")) {
+			current.updated.push(line.slice(1));
+		} else {
+			const context = line.startsWith(" ") ? line.slice(1) : line;
+			current.original.push(context);
+			current.updated.push(context);
+		}
+	}
+
+	return changes.map((change) => ({
+		path: change.path,
+		original: change.original.join("\n"),
+		updated: change.updated.join("\n"),
+	}));
+}
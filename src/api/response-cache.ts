@@ -0,0 +1,97 @@
+import { createHash } from "node:crypto";
+
+const DEFAULT_MAX_ENTRIES = 50;
+
+export interface ResponseCacheKeyParts {
+	backend: string;
+	filePath: string;
+	fileContents: string;
+	cursorPosition: number;
+	recentChanges: string;
+}
+
+export interface ResponseCacheStats {
+	hits: number;
+	misses: number;
+	size: number;
+	/** Hits over lookups, or 0 before the first lookup. */
+	hitRate: number;
+}
+
+interface CacheEntry<T> {
+	filePath: string;
+	value: T;
+}
+
+export function responseCacheKey(parts: ResponseCacheKeyParts): string {
+	const hash = createHash("sha256");
+	for (const part of [
+		parts.backend,
+		parts.filePath,
+		String(parts.cursorPosition),
+		parts.recentChanges,
+		parts.fileContents,
+	]) {
+		// Length-prefix each part so that different splits never collide.
+		hash.update(`${part.length}:${part}`);
+	}
+	return hash.digest("hex");
+}
+
+/**
+ * Least-recently-used cache of responses. Map iteration follows insertion
+ * order, so re-inserting an entry on every read keeps the oldest one first.
+ */
+export class ResponseCache<T> {
+	private entries = new Map<string, CacheEntry<T>>();
+	private hits = 0;
+	private misses = 0;
+	private readonly maxEntries: number;
+
+	constructor(maxEntries = DEFAULT_MAX_ENTRIES) {
+		this.maxEntries = maxEntries;
+	}
+
+	get(key: string): T | undefined {
+		const entry = this.entries.get(key);
+		if (!entry) {
+			this.misses++;
+			return undefined;
+		}
+		this.hits++;
+		this.entries.delete(key);
+		this.entries.set(key, entry);
+		return entry.value;
+	}
+
+	set(key: string, filePath: string, value: T): void {
+		this.entries.delete(key);
+		this.entries.set(key, { filePath, value });
+		while (this.entries.size > this.maxEntries) {
+			const oldest = this.entries.keys().next().value;
+			if (oldest === undefined) break;
+			this.entries.delete(oldest);
+		}
+	}
+
+	/** Drops every entry cached for `filePath`. */
+	invalidate(filePath: string): void {
+		for (const [key, entry] of this.entries) {
+			if (entry.filePath === filePath) this.entries.delete(key);
+		}
+	}
+
+	clear(): void {
+		this.entries.clear();
+	}
+
+	getStats(): ResponseCacheStats {
+		const lookups = this.hits + this.misses;
+		return {
+			hits: this.hits,
+			misses: this.misses,
+			size: this.entries.size,
+			hitRate: lookups > 0 ? this.hits / lookups : 0,
+		};
+	}
+}
@@ -50,6 +50,24 @@ export function fuseAndDedupRetrievalSnippets(
 	return fused;
 }
 
+/**
+ * How many of `chunks` still reach the backend through `sent`, whole or
+ * fused with a neighbour or trimmed by packing.
+ */
+export function countSentChunks(
+	chunks: readonly FileChunk[],
+	sent: readonly FileChunk[],
+): number {
+	return chunks.filter((chunk) =>
+		sent.some(
+			(other) =>
+				other.file_path === chunk.file_path &&
+				chunk.start_line <= other.end_line &&
+				other.start_line <= chunk.end_line,
+		),
+	).length;
+}
+
 function rangesTouch(a: FileChunk, b: FileChunk): boolean {
 	return b.start_line <= a.end_line + 1 && a.start_line <= b.end_line + 1;
 }
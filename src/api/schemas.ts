@@ -49,6 +49,7 @@ export const AutocompleteRequestSchema = z.object({
 	editor_diagnostics: z.array(EditorDiagnosticSchema),
 	recent_user_actions: z.array(UserActionSchema),
 	use_bytes: z.boolean(),
+	stream: z.boolean().optional(),
 });
 
 export const AutocompleteResponseSchema = z.object({
@@ -59,6 +60,8 @@ export const AutocompleteResponseSchema = z.object({
 	confidence: z.number(),
 	elapsed_time_ms: z.number().optional(),
 	finish_reason: z.string().nullable().optional(),
+	/** Set when the edit belongs to another file; offsets index into it. */
+	file_path: z.string().optional(),
 	completions: z
 		.array(
 			z.object({
@@ -67,6 +70,7 @@ export const AutocompleteResponseSchema = z.object({
 				end_index: z.number(),
 				completion: z.string(),
 				confidence: z.number(),
+				file_path: z.string().optional(),
 			}),
 		)
 		.optional(),
@@ -106,11 +110,25 @@ export const AutocompleteMetricsRequestSchema = z.object({
 	num_usages_retrieved: z.number().optional(),
 });
 
+export const AutocompleteMetricsResponseSchema = z.unknown();
+
+export const CompletionsResponseSchema = z.object({
+	choices: z
+		.array(
+			z.object({
+				text: z.string(),
+				finish_reason: z.string().nullable().optional(),
+			}),
+		)
+		.min(1),
+});
+
 export type FileChunk = z.infer<typeof FileChunkSchema>;
 export type UserAction = z.infer<typeof UserActionSchema>;
 export type EditorDiagnostic = z.infer<typeof EditorDiagnosticSchema>;
 export type AutocompleteRequest = z.infer<typeof AutocompleteRequestSchema>;
 export type AutocompleteResponse = z.infer<typeof AutocompleteResponseSchema>;
+export type CompletionsResponse = z.infer<typeof CompletionsResponseSchema>;
 export type AutocompleteMetricsRequest = z.infer<
 	typeof AutocompleteMetricsRequestSchema
 >;
@@ -119,12 +137,26 @@ export type SuggestionType = z.infer<typeof SuggestionTypeSchema>;
 
 export type ActionType = UserAction["action_type"];
 
+/** Where a retrieval chunk sent with a request came from. */
+export interface ChunkReference {
+	filePath: string;
+	startLine: number;
+	endLine: number;
+}
+
 export interface AutocompleteResult {
 	id: string;
 	startIndex: number;
 	endIndex: number;
 	completion: string;
 	confidence: number;
+	elapsedTimeMs?: number;
+	/** Document the edit applies to, when it is not the requested one. */
+	targetUri?: string;
+	/** Retrieval chunks sent with the request that produced this result. */
+	retrievalChunks?: ChunkReference[];
+	numDefinitionsRetrieved?: number;
+	numUsagesRetrieved?: number;
 }
 
 export interface RecentChange {
@@ -0,0 +1,177 @@
+const SECRET_PATTERNS: RegExp[] = [
+	/-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+	// AWS access key ids.
+	/\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g,
+	// GitHub personal, OAuth, app and refresh tokens.
+	/\bgh[pousr]_[A-Za-z0-9]{36,255}\b/g,
+	/\bgithub_pat_[A-Za-z0-9_]{22,255}\b/g,
+	// JWTs: base64url header and payload, both JSON objects.
+	/\beyJ[A-Za-z0-9_-]+\.eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g,
+];
+// Slashes are left out, so paths and URLs split into short segments.
+const HIGH_ENTROPY_CANDIDATE = /[A-Za-z0-9+_-]{20,}={0,2}/g;
+// Subresource integrity hashes, as in lockfiles, look random but are public.
+const INTEGRITY_HASH = /\bsha(?:256|384|512)-[A-Za-z0-9+/]+={0,2}/g;
+// Longer than a SHA-1 commit hash, which code quotes all the time.
+const MIN_HEX_SECRET_LENGTH = 41;
+// Bits per character; random hex tops out at 4, random base64 at 6.
+const HEX_ENTROPY_THRESHOLD = 3;
+const BASE64_ENTROPY_THRESHOLD = 4;
+
+/** Where a secret sat in the original text and where its placeholder sits. */
+interface RedactedSpan {
+	start: number;
+	end: number;
+	redactedStart: number;
+	redactedEnd: number;
+}
+
+export interface RedactedText {
+	text: string;
+	spans: RedactedSpan[];
+}
+
+/**
+ * Replaces secrets with numbered placeholders before text is sent to a
+ * backend. One instance covers one request, so a secret gets the same
+ * placeholder in every field and completions echoing it can be restored.
+ */
+export class SecretRedactor {
+	private secretsByPlaceholder = new Map<string, string>();
+	private placeholdersBySecret = new Map<string, string>();
+
+	get redactionCount(): number {
+		return this.secretsByPlaceholder.size;
+	}
+
+	redact(text: string): RedactedText {
+		const spans: RedactedSpan[] = [];
+		let redacted = "";
+		let cursor = 0;
+		for (const { start, end } of findSecrets(text)) {
+			redacted += text.slice(cursor, start);
+			const placeholder = this.placeholderFor(text.slice(start, end));
+			spans.push({
+				start,
+				end,
+				redactedStart: redacted.length,
+				redactedEnd: redacted.length + placeholder.length,
+			});
+			redacted += placeholder;
+			cursor = end;
+		}
+		redacted += text.slice(cursor);
+		return { text: redacted, spans };
+	}
+
+	/** Puts back the secrets behind any placeholders in `text`. */
+	restore(text: string): string {
+		let restored = text;
+		for (const [placeholder, secret] of this.secretsByPlaceholder) {
+			restored = restored.replaceAll(placeholder, secret);
+		}
+		return restored;
+	}
+
+	private placeholderFor(secret: string): string {
+		let placeholder = this.placeholdersBySecret.get(secret);
+		if (!placeholder) {
+			placeholder = `<redacted-secret-${this.secretsByPlaceholder.size + 1}>`;
+			this.placeholdersBySecret.set(secret, placeholder);
+			this.secretsByPlaceholder.set(placeholder, secret);
+		}
+		return placeholder;
+	}
+}
+
+/** Maps an offset of the original text into the redacted text. */
+export function toRedactedOffset(
+	redacted: RedactedText,
+	offset: number,
+): number {
+	let shift = 0;
+	for (const span of redacted.spans) {
+		if (offset <= span.start) break;
+		if (offset < span.end) return span.redactedStart;
+		shift = span.redactedEnd - span.end;
+	}
+	return offset + shift;
+}
+
+/**
+ * Maps an offset of the redacted text back into the original. Offsets inside
+ * a placeholder snap to the start of its secret, or to the end with `"end"`.
+ */
+export function toOriginalOffset(
+	redacted: RedactedText,
+	offset: number,
+	bias: "start" | "end" = "start",
+): number {
+	let shift = 0;
+	for (const span of redacted.spans) {
+		if (offset <= span.redactedStart) break;
+		if (offset < span.redactedEnd) {
+			return bias === "start" ? span.start : span.end;
+		}
+		shift = span.end - span.redactedEnd;
+	}
+	return offset + shift;
+}
+
+function findSecrets(text: string): { start: number; end: number }[] {
+	const matches: { start: number; end: number }[] = [];
+	for (const pattern of SECRET_PATTERNS) {
+		for (const match of text.matchAll(pattern)) {
+			matches.push({ start: match.index, end: match.index + match[0].length });
+		}
+	}
+	const integrityHashes = [...text.matchAll(INTEGRITY_HASH)].map((match) => ({
+		start: match.index,
+		end: match.index + match[0].length,
+	}));
+	for (const match of text.matchAll(HIGH_ENTROPY_CANDIDATE)) {
+		const start = match.index;
+		const end = start + match[0].length;
+		const isIntegrityHash = integrityHashes.some(
+			(hash) => start < hash.end && end > hash.start,
+		);
+		if (!isIntegrityHash && isHighEntropySecret(match[0])) {
+			matches.push({ start, end });
+		}
+	}
+
+	// Keep the earliest, then longest, of overlapping matches.
+	matches.sort((a, b) => a.start - b.start || b.end - a.end);
+	const secrets: { start: number; end: number }[] = [];
+	for (const match of matches) {
+		const last = secrets.at(-1);
+		if (last && match.start < last.end) continue;
+		secrets.push(match);
+	}
+	return secrets;
+}
+
+function isHighEntropySecret(candidate: string): boolean {
+	if (/^[0-9a-fA-F]+$/.test(candidate)) {
+		return (
+			candidate.length >= MIN_HEX_SECRET_LENGTH &&
+			shannonEntropy(candidate) >= HEX_ENTROPY_THRESHOLD
+		);
+	}
+	// Identifiers and paths are long too, but rarely mix in digits.
+	if (!/[0-9]/.test(candidate) || !/[A-Za-z]/.test(candidate)) return false;
+	return shannonEntropy(candidate) >= BASE64_ENTROPY_THRESHOLD;
+}
+
+function shannonEntropy(text: string): number {
+	const counts = new Map<string, number>();
+	for (const char of text) {
+		counts.set(char, (counts.get(char) ?? 0) + 1);
+	}
+	let entropy = 0;
+	for (const count of counts.values()) {
+		const probability = count / text.length;
+		entropy -= probability * Math.log2(probability);
+	}
+	return entropy;
+}
@@ -1,10 +1,28 @@
-import * as path from "node:path";
 import * as vscode from "vscode";
 
-import { DEFAULT_MAX_CONTEXT_FILES } from "~/core/constants.ts";
+import {
+	DEFAULT_CONTEXT_TOKEN_BUDGET,
+	DEFAULT_MAX_CLIPBOARD_LINES,
+	DEFAULT_MAX_CONTEXT_FILES,
+	DEFAULT_MAX_DEFINITION_CHUNKS,
+	DEFAULT_MAX_DIAGNOSTICS,
+	DEFAULT_MAX_USAGE_CHUNKS,
+	DEFAULT_REQUEST_TIMEOUT_MS,
+	MODEL_NAME,
+} from "~/core/constants.ts";
 
 const SWEEP_CONFIG_SECTION = "sweep";
 
+export type BackendKind = "local" | "remote" | "completions";
+
+/** Which retrieval sources feed requests, and how much each may contribute. */
+export interface ContextSourceSettings {
+	clipboard: { enabled: boolean; maxLines: number };
+	usages: { enabled: boolean; maxChunks: number };
+	definitions: { enabled: boolean; maxChunks: number };
+	diagnostics: { enabled: boolean; maxCount: number };
+}
+
 export class SweepConfig {
 	private get config(): vscode.WorkspaceConfiguration {
 		return vscode.workspace.getConfiguration(SWEEP_CONFIG_SECTION);
@@ -21,6 +39,47 @@ export class SweepConfig {
 		);
 	}
 
+	get contextTokenBudget(): number {
+		return this.config.get<number>(
+			"contextTokenBudget",
+			DEFAULT_CONTEXT_TOKEN_BUDGET,
+		);
+	}
+
+	get contextSources(): ContextSourceSettings {
+		const config = this.config;
+		return {
+			clipboard: {
+				enabled: config.get<boolean>("context.clipboard", true),
+				maxLines: config.get<number>(
+					"context.clipboardMaxLines",
+					DEFAULT_MAX_CLIPBOARD_LINES,
+				),
+			},
+			usages: {
+				enabled: config.get<boolean>("context.usages", true),
+				maxChunks: config.get<number>(
+					"context.maxUsages",
+					DEFAULT_MAX_USAGE_CHUNKS,
+				),
+			},
+			definitions: {
+				enabled: config.get<boolean>("context.definitions", true),
+				maxChunks: config.get<number>(
+					"context.maxDefinitions",
+					DEFAULT_MAX_DEFINITION_CHUNKS,
+				),
+			},
+			diagnostics: {
+				enabled: config.get<boolean>("context.diagnostics", true),
+				maxCount: config.get<number>(
+					"context.maxDiagnostics",
+					DEFAULT_MAX_DIAGNOSTICS,
+				),
+			},
+		};
+	}
+
 	get autocompleteExclusionPatterns(): string[] {
 		return this.config.get<string[]>("autocompleteExclusionPatterns", []);
 	}
@@ -33,6 +92,29 @@ export class SweepConfig {
 		return this.config.get<number>("localPort", 8081);
 	}
 
+	get backend(): BackendKind {
+		return this.config.get<BackendKind>("backend", "local");
+	}
+
+	get backendUrl(): string {
+		return this.config.get<string>("backendUrl", "").trim().replace(/\/+$/, "");
+	}
+
+	get requestTimeoutMs(): number {
+		return this.config.get<number>(
+			"requestTimeoutMs",
+			DEFAULT_REQUEST_TIMEOUT_MS,
+		);
+	}
+
+	get minConfidence(): number {
+		return this.config.get<number>("minConfidence", 0);
+	}
+
+	get completionsModel(): string {
+		return this.config.get<string>("completionsModel", MODEL_NAME);
+	}
+
 	isAutocompleteSnoozed(now = Date.now()): boolean {
 		const snoozeUntil = this.autocompleteSnoozeUntil;
 		return snoozeUntil > now;
@@ -44,22 +126,6 @@ export class SweepConfig {
 		return Math.max(0, snoozeUntil - now);
 	}
 
-	shouldExcludeFromAutocomplete(filePath: string): boolean {
-		const patterns = this.autocompleteExclusionPatterns.filter(Boolean);
-		if (patterns.length === 0) return false;
-		const fileName = path.basename(filePath);
-		const normalizedPath = filePath.replace(/\\/g, "/");
-		return patterns.some((pattern) => {
-			const trimmed = pattern.trim();
-			if (!trimmed) return false;
-			if (trimmed.includes("*")) {
-				const regex = globToRegex(trimmed);
-				return regex.test(normalizedPath);
-			}
-			return fileName.endsWith(trimmed) || normalizedPath.endsWith(trimmed);
-		});
-	}
-
 	inspect<T>(key: string) {
 		return this.config.inspect<T>(key);
 	}
@@ -93,12 +159,3 @@ export class SweepConfig {
 }
 
 export const config = new SweepConfig();
-
-function globToRegex(pattern: string): RegExp {
-	const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, "\\$&");
-	const placeholder = "__DOUBLE_STAR__";
-	const withPlaceholder = escaped.replace(/\*\*/g, placeholder);
-	const withStar = withPlaceholder.replace(/\*/g, "[^/]*");
-	const withDoubleStar = withStar.replace(new RegExp(placeholder, "g"), ".*");
-	return new RegExp(`^${withDoubleStar}$`);
-}
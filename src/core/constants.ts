@@ -4,6 +4,12 @@ export const STOP_TOKENS = ["<|file_sep|>", "</s>"];
 
 // Default configuration
 export const DEFAULT_MAX_CONTEXT_FILES = 5;
+export const DEFAULT_REQUEST_TIMEOUT_MS = 10_000;
+export const DEFAULT_MAX_DEFINITION_CHUNKS = 6;
+export const DEFAULT_MAX_USAGE_CHUNKS = 6;
+export const DEFAULT_MAX_CLIPBOARD_LINES = 20;
+export const DEFAULT_MAX_DIAGNOSTICS = 50;
+export const DEFAULT_CONTEXT_TOKEN_BUDGET = 6_000;
 
 // Model parameters
 export const MODEL_NAME = "sweepai/sweep-next-edit";
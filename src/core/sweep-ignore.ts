@@ -0,0 +1,158 @@
+import * as path from "node:path";
+import * as vscode from "vscode";
+
+import { config } from "~/core/config.ts";
+import {
+	IgnoreMatcher,
+	type IgnoreRule,
+	parseIgnoreRules,
+} from "~/utils/gitignore.ts";
+import { toUnixPath } from "~/utils/path.ts";
+
+const SWEEPIGNORE_FILE_NAME = ".sweepignore";
+
+/**
+ * Decides which files Sweep must neither suggest edits in nor send as
+ * context, from the `.sweepignore` files of each workspace folder plus the
+ * `sweep.autocompleteExclusionPatterns` setting.
+ */
+export class SweepIgnore implements vscode.Disposable {
+	/** Keyed by workspace folder URI. */
+	private matchers = new Map<string, IgnoreMatcher>();
+	private settingsRules: IgnoreRule[] = [];
+	/** False until the `.sweepignore` files were first read. */
+	private loaded = false;
+	private reloadCount = 0;
+	private disposables: vscode.Disposable[] = [];
+
+	constructor() {
+		this.loadSettingsRules();
+
+		const watcher = vscode.workspace.createFileSystemWatcher(
+			`**/${SWEEPIGNORE_FILE_NAME}`,
+		);
+		this.disposables.push(
+			watcher,
+			watcher.onDidCreate((uri) => void this.loadFile(uri)),
+			watcher.onDidChange((uri) => void this.loadFile(uri)),
+			watcher.onDidDelete((uri) => this.deleteFile(uri)),
+			vscode.workspace.onDidChangeWorkspaceFolders(() => void this.reload()),
+			vscode.workspace.onDidChangeConfiguration((event) => {
+				if (event.affectsConfiguration("sweep.autocompleteExclusionPatterns")) {
+					this.loadSettingsRules();
+				}
+			}),
+		);
+		void this.reload();
+	}
+
+	isIgnored(uri: vscode.Uri): boolean {
+		// Until the ignore files are read, any file may turn out to be ignored.
+		if (!this.loaded) return true;
+		const folder = vscode.workspace.getWorkspaceFolder(uri);
+		if (!folder) {
+			// Outside the workspace only the settings patterns apply.
+			return new IgnoreMatcher(this.settingsRules).isIgnored(
+				toUnixPath(uri.fsPath),
+			);
+		}
+		return this.getMatcher(folder).isIgnored(
+			toUnixPath(path.relative(folder.uri.fsPath, uri.fsPath)),
+		);
+	}
+
+	private loadSettingsRules(): void {
+		this.settingsRules = parseIgnoreRules(
+			config.autocompleteExclusionPatterns.join("\n"),
+		);
+		for (const matcher of this.matchers.values()) {
+			matcher.setDefaultRules(this.settingsRules);
+		}
+	}
+
+	/**
+	 * Rereads every `.sweepignore` into fresh matchers, which replace the
+	 * current ones only once complete.
+	 */
+	private async reload(): Promise<void> {
+		const reloadCount = ++this.reloadCount;
+		const matchers = new Map<string, IgnoreMatcher>();
+		try {
+			const files = await vscode.workspace.findFiles(
+				`**/${SWEEPIGNORE_FILE_NAME}`,
+			);
+			await Promise.all(files.map((uri) => this.loadFile(uri, matchers)));
+		} catch (error) {
+			console.error("[Sweep] Failed to find .sweepignore files:", error);
+		}
+		// A later reload started meanwhile and will have the newer files.
+		if (reloadCount !== this.reloadCount) return;
+		// The settings may have changed while the files were read.
+		for (const matcher of matchers.values()) {
+			matcher.setDefaultRules(this.settingsRules);
+		}
+		this.matchers = matchers;
+		this.loaded = true;
+	}
+
+	private async loadFile(
+		uri: vscode.Uri,
+		matchers = this.matchers,
+	): Promise<void> {
+		const folder = vscode.workspace.getWorkspaceFolder(uri);
+		if (!folder) return;
+		let content: string;
+		try {
+			content = new TextDecoder().decode(
+				await vscode.workspace.fs.readFile(uri),
+			);
+		} catch (error) {
+			console.error("[Sweep] Failed to read .sweepignore:", error);
+			this.deleteFile(uri, matchers);
+			return;
+		}
+		const rules = parseIgnoreRules(content);
+		this.getMatcher(folder, matchers).setRules(
+			this.getBase(folder, uri),
+			rules,
+		);
+		console.log("[Sweep] Loaded .sweepignore", {
+			path: vscode.workspace.asRelativePath(uri),
+			rules: rules.length,
+		});
+	}
+
+	private deleteFile(uri: vscode.Uri, matchers = this.matchers): void {
+		const folder = vscode.workspace.getWorkspaceFolder(uri);
+		if (!folder) return;
+		matchers.get(folder.uri.toString())?.deleteRules(this.getBase(folder, uri));
+	}
+
+	private getMatcher(
+		folder: vscode.WorkspaceFolder,
+		matchers = this.matchers,
+	): IgnoreMatcher {
+		const key = folder.uri.toString();
+		let matcher = matchers.get(key);
+		if (!matcher) {
+			matcher = new IgnoreMatcher(this.settingsRules);
+			matchers.set(key, matcher);
+		}
+		return matcher;
+	}
+
+	/** Directory of the ignore file at `uri`, relative to `folder`. */
+	private getBase(folder: vscode.WorkspaceFolder, uri: vscode.Uri): string {
+		const relativeDir = path.dirname(
+			path.relative(folder.uri.fsPath, uri.fsPath),
+		);
+		return relativeDir === "." ? "" : toUnixPath(relativeDir);
+	}
+
+	dispose(): void {
+		for (const disposable of this.disposables) {
+			disposable.dispose();
+		}
+		this.disposables = [];
+	}
+}
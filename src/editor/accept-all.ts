@@ -0,0 +1,94 @@
+import * as vscode from "vscode";
+
+import type { AutocompleteResult } from "~/api/schemas.ts";
+import {
+	appliedRanges,
+	selectNonOverlapping,
+} from "~/editor/suggestion-offsets.ts";
+import {
+	type AutocompleteMetricsTracker,
+	buildMetricsPayload,
+} from "~/telemetry/autocomplete-metrics.ts";
+
+/**
+ * Applies every suggestion that doesn't overlap an earlier one as a single
+ * `WorkspaceEdit`, so each touched file undoes in one step, and reports each
+ * applied suggestion as accepted. Resolves with the number applied.
+ */
+export async function acceptAllSuggestions(
+	document: vscode.TextDocument,
+	suggestions: readonly AutocompleteResult[],
+	metricsTracker: AutocompleteMetricsTracker,
+): Promise<number> {
+	const byDocument = new Map<string, AutocompleteResult[]>();
+	for (const suggestion of suggestions) {
+		const uri = suggestion.targetUri ?? document.uri.toString();
+		const group = byDocument.get(uri);
+		if (group) {
+			group.push(suggestion);
+		} else {
+			byDocument.set(uri, [suggestion]);
+		}
+	}
+
+	const edit = new vscode.WorkspaceEdit();
+	const planned: Array<{
+		document: vscode.TextDocument;
+		suggestions: AutocompleteResult[];
+	}> = [];
+	for (const [uri, group] of byDocument) {
+		const target =
+			uri === document.uri.toString()
+				? document
+				: vscode.workspace.textDocuments.find(
+						(candidate) => candidate.uri.toString() === uri,
+					);
+		if (!target) continue;
+		const selected = selectNonOverlapping(group);
+		for (const suggestion of selected) {
+			edit.replace(
+				target.uri,
+				new vscode.Range(
+					target.positionAt(suggestion.startIndex),
+					target.positionAt(suggestion.endIndex),
+				),
+				suggestion.completion,
+			);
+		}
+		planned.push({ document: target, suggestions: selected });
+	}
+	if (planned.length === 0) return 0;
+
+	// Payloads describe the suggestion against the document before the edit.
+	const payloads = planned.map((entry) =>
+		entry.suggestions.map((suggestion) =>
+			buildMetricsPayload(entry.document, suggestion, {
+				suggestionType: "MULTI",
+			}),
+		),
+	);
+	if (!(await vscode.workspace.applyEdit(edit))) {
+		console.error("[Sweep] Failed to apply all suggestions");
+		return 0;
+	}
+
+	let accepted = 0;
+	planned.forEach((entry, entryIndex) => {
+		const ranges = appliedRanges(entry.suggestions);
+		entry.suggestions.forEach((_suggestion, index) => {
+			const payload = payloads[entryIndex]?.[index];
+			const range = ranges[index];
+			if (!payload || !range) return;
+			metricsTracker.trackAccepted(payload, {
+				document: entry.document,
+				...range,
+			});
+			accepted++;
+		});
+	});
+	console.log("[Sweep] Accepted all suggestions", {
+		accepted,
+		files: planned.length,
+	});
+	return accepted;
+}
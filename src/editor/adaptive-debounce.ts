@@ -0,0 +1,95 @@
+// Requests closer together than this are spaced out to it.
+const MIN_REQUEST_SPACING_MS = 300;
+const MAX_DEBOUNCE_MS = 600;
+// A gap this many times the usual keystroke interval means the user paused.
+const PAUSE_FACTOR = 1.5;
+// Slow responses make a cancelled request costlier, so wait a little longer.
+const LATENCY_WEIGHT = 0.25;
+// Longer gaps are pauses, not typing rhythm.
+const MAX_TYPING_INTERVAL_MS = 1000;
+const SMOOTHING = 0.3;
+
+export interface DebounceDecision {
+	delayMs: number;
+	/** Smoothed gap between keystrokes, or null before there is a sample. */
+	typingIntervalMs: number | null;
+	/** Smoothed request latency, or null before there is a sample. */
+	latencyMs: number | null;
+	sinceLastKeystrokeMs: number | null;
+	sinceLastRequestMs: number | null;
+	/** Whether keystrokes are arriving faster than the usual interval. */
+	inBurst: boolean;
+}
+
+/**
+ * Picks how long to wait before requesting a suggestion. Requests are spaced
+ * at least `MIN_REQUEST_SPACING_MS` apart; while keystrokes come faster than
+ * the user's usual rhythm, the wait stretches to the expected pause, longer
+ * still when requests are slow.
+ */
+export class AdaptiveDebounce {
+	private typingIntervalMs: number | null = null;
+	private lastIntervalMs: number | null = null;
+	private latencyMs: number | null = null;
+	private lastKeystrokeTime: number | null = null;
+	private lastRequestTime: number | null = null;
+
+	recordKeystroke(timestamp: number): void {
+		if (this.lastKeystrokeTime !== null) {
+			const interval = timestamp - this.lastKeystrokeTime;
+			this.lastIntervalMs = interval;
+			if (interval > 0 && interval <= MAX_TYPING_INTERVAL_MS) {
+				this.typingIntervalMs = smooth(this.typingIntervalMs, interval);
+			}
+		}
+		this.lastKeystrokeTime = timestamp;
+	}
+
+	recordLatency(latencyMs: number): void {
+		if (latencyMs < 0) return;
+		this.latencyMs = smooth(this.latencyMs, latencyMs);
+	}
+
+	/** Call once per request; `now` is taken as the time of that request. */
+	decide(now: number): DebounceDecision {
+		const sinceLastKeystrokeMs =
+			this.lastKeystrokeTime !== null ? now - this.lastKeystrokeTime : null;
+		const sinceLastRequestMs =
+			this.lastRequestTime !== null ? now - this.lastRequestTime : null;
+		this.lastRequestTime = now;
+
+		const spacingMs =
+			sinceLastRequestMs !== null
+				? Math.max(0, MIN_REQUEST_SPACING_MS - sinceLastRequestMs)
+				: 0;
+		const typingIntervalMs = this.typingIntervalMs;
+		const inBurst =
+			typingIntervalMs !== null &&
+			this.lastIntervalMs !== null &&
+			this.lastIntervalMs < typingIntervalMs &&
+			(sinceLastKeystrokeMs ?? 0) < typingIntervalMs * PAUSE_FACTOR;
+
+		let delayMs = spacingMs;
+		if (inBurst && typingIntervalMs !== null) {
+			const expectedPauseMs =
+				typingIntervalMs * PAUSE_FACTOR +
+				(this.latencyMs ?? 0) * LATENCY_WEIGHT;
+			const remainingMs = expectedPauseMs - (sinceLastKeystrokeMs ?? 0);
+			delayMs = Math.min(MAX_DEBOUNCE_MS, Math.max(spacingMs, remainingMs));
+		}
+		return {
+			delayMs: Math.round(delayMs),
+			typingIntervalMs,
+			latencyMs: this.latencyMs,
+			sinceLastKeystrokeMs,
+			sinceLastRequestMs,
+			inBurst,
+		};
+	}
+}
+
+function smooth(previous: number | null, sample: number): number {
+	return previous === null
+		? sample
+		: previous + SMOOTHING * (sample - previous);
+}
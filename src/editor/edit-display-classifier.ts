@@ -4,6 +4,8 @@ export interface EditDisplayClassification {
 	decision: EditDisplayDecision;
 	reason:
 		| "far-from-cursor"
+		| "low-confidence-far-from-cursor"
+		| "mid-confidence-off-cursor-line"
 		| "before-cursor-multiline"
 		| "before-cursor-single-line"
 		| "single-newline-boundary"
@@ -18,9 +20,16 @@ export interface EditDisplayClassifierInput {
 	startIndex: number;
 	completion: string;
 	isOnSingleNewlineBoundary: boolean;
+	/** Model confidence in [0, 1]; treated as certain when omitted. */
+	confidence?: number;
 }
 
 export const EDIT_RANGE_PADDING_ROWS = 2;
+// Far edits below this confidence are not worth a jump hint.
+export const FAR_EDIT_CONFIDENCE_FLOOR = 0.3;
+// Below this confidence, edits off the cursor line show as a jump hint
+// rather than as ghost text.
+export const INLINE_CONFIDENCE_THRESHOLD = 0.6;
 
 export function classifyEditDisplay(
 	input: EditDisplayClassifierInput,
@@ -28,6 +37,7 @@ export function classifyEditDisplay(
 	const lineDifference = Math.abs(input.cursorLine - input.editStartLine);
 	const isBeforeCursor = input.startIndex < input.cursorOffset;
 	const hasMultilineCompletion = input.completion.includes("\n");
+	const confidence = input.confidence ?? 1;
 
 	const paddedStart = Math.max(
 		0,
@@ -37,6 +47,13 @@ export function classifyEditDisplay(
 	const isFarFromCursor =
 		input.cursorLine < paddedStart || input.cursorLine > paddedEnd;
 
+	if (isFarFromCursor && confidence < FAR_EDIT_CONFIDENCE_FLOOR) {
+		return {
+			decision: "SUPPRESS",
+			reason: "low-confidence-far-from-cursor",
+		};
+	}
+
 	if (isFarFromCursor) {
 		return {
 			decision: "JUMP",
@@ -70,6 +87,16 @@ export function classifyEditDisplay(
 		};
 	}
 
+	if (
+		confidence < INLINE_CONFIDENCE_THRESHOLD &&
+		input.editStartLine !== input.cursorLine
+	) {
+		return {
+			decision: "JUMP",
+			reason: "mid-confidence-off-cursor-line",
+		};
+	}
+
 	return {
 		decision: "INLINE",
 		reason: "inline-safe",
@@ -2,28 +2,48 @@ import * as vscode from "vscode";
 import type { ApiClient, AutocompleteInput } from "~/api/client.ts";
 import type { AutocompleteResult } from "~/api/schemas.ts";
 import { config } from "~/core/config";
+import type { SweepIgnore } from "~/core/sweep-ignore.ts";
+import { AdaptiveDebounce } from "~/editor/adaptive-debounce.ts";
 import type { JumpEditManager } from "~/editor/jump-edit-manager.ts";
+import {
+	type AlternativePosition,
+	groupAlternatives,
+	rebaseSuggestions,
+} from "~/editor/suggestion-offsets.ts";
+import type { SuppressionRegionStore } from "~/editor/suppression-regions.ts";
 import {
 	type AutocompleteMetricsPayload,
 	type AutocompleteMetricsTracker,
 	buildMetricsPayload,
 } from "~/telemetry/autocomplete-metrics.ts";
 import type { DocumentTracker } from "~/telemetry/document-tracker.ts";
+import type { SuggestionStatusEvent } from "~/telemetry/suggestion-history.ts";
 import { toUnixPath } from "~/utils/path.ts";
 import { isFileTooLarge, utf8ByteOffsetAt } from "~/utils/text.ts";
 
-const INLINE_REQUEST_DEBOUNCE_MS = 300;
 const MAX_FILE_CHUNK_LINES = 60;
 const BULK_CHANGE_LOOKBACK_MS = 1500;
 const BULK_CHANGE_CHAR_THRESHOLD = 200;
 const BULK_CHANGE_LINE_THRESHOLD = 8;
 const SELECTION_LOOKBACK_MS = 5000;
+const ALTERNATIVE_STATUS_TIMEOUT_MS = 5000;
 
 interface QueuedSuggestionState {
 	uri: string;
 	suggestions: AutocompleteResult[];
 }
 
+interface PrefetchedRequest {
+	uri: string;
+	version: number;
+	offset: number;
+	controller: AbortController;
+	results: Promise<AutocompleteResult[] | null>;
+	/** Streamed results that arrived before a request picked this up. */
+	lateResults: AutocompleteResult[];
+	onLateResults: ((results: AutocompleteResult[]) => boolean) | null;
+}
+
 interface AcceptedInlineSuggestion {
 	id: string;
 	startIndex: number;
@@ -31,17 +51,22 @@ interface AcceptedInlineSuggestion {
 	completion: string;
 }
 
-export class InlineEditProvider implements vscode.InlineCompletionItemProvider {
+export class InlineEditProvider
+	implements vscode.InlineCompletionItemProvider, vscode.Disposable
+{
 	private tracker: DocumentTracker;
 	private jumpEditManager: JumpEditManager;
 	private api: ApiClient;
 	private metricsTracker: AutocompleteMetricsTracker;
+	private suppressionRegions: SuppressionRegionStore;
+	private sweepIgnore: SweepIgnore;
 	private lastInlineEdit: {
 		uri: string;
 		line: number;
 		character: number;
 		version: number;
 		payload: AutocompleteMetricsPayload;
+		result: AutocompleteResult;
 	} | null = null;
 	private queuedSuggestions: QueuedSuggestionState | null = null;
 	private shouldConsumeQueuedSuggestion = false;
@@ -52,18 +77,32 @@ export class InlineEditProvider implements vscode.InlineCompletionItemProvider {
 		controller: AbortController;
 		uri: string;
 	} | null = null;
-	private lastRequestTimestamp = 0;
+	private debounce = new AdaptiveDebounce();
+	private prefetchedRequest: PrefetchedRequest | null = null;
+	private prefetchCounter = 0;
+	/** Alternatives of the latest response, keyed by each member's id. */
+	private alternativeGroups = new Map<string, AutocompleteResult[]>();
+	private alternativeStatusMessage: vscode.Disposable | null = null;
+	private suggestionStatusEmitter =
+		new vscode.EventEmitter<SuggestionStatusEvent>();
+
+	/** Fires as ghost text suggestions are shown, accepted or disposed. */
+	readonly onDidChangeSuggestionStatus = this.suggestionStatusEmitter.event;
 
 	constructor(
 		tracker: DocumentTracker,
 		jumpEditManager: JumpEditManager,
 		api: ApiClient,
 		metricsTracker: AutocompleteMetricsTracker,
+		suppressionRegions: SuppressionRegionStore,
+		sweepIgnore: SweepIgnore,
 	) {
 		this.tracker = tracker;
 		this.jumpEditManager = jumpEditManager;
 		this.api = api;
 		this.metricsTracker = metricsTracker;
+		this.suppressionRegions = suppressionRegions;
+		this.sweepIgnore = sweepIgnore;
 	}
 
 	async provideInlineCompletionItems(
@@ -86,10 +125,7 @@ export class InlineEditProvider implements vscode.InlineCompletionItemProvider {
 		}
 
 		const uri = document.uri.toString();
-		const filePath = document.uri.fsPath;
-		if (filePath && config.shouldExcludeFromAutocomplete(filePath)) {
-			return undefined;
-		}
+		if (this.sweepIgnore.isIgnored(document.uri)) return undefined;
 		const currentContent = document.getText();
 		const requestSnapshot = {
 			uri,
@@ -119,22 +155,74 @@ export class InlineEditProvider implements vscode.InlineCompletionItemProvider {
 
 		if (token.isCancellationRequested) return undefined;
 
-		const shouldContinue = await this.waitForDebounce(requestId, token);
-		if (!shouldContinue) return undefined;
-		if (!this.isLatestRequest(requestId)) return undefined;
+		const prefetch = this.takePrefetchedRequest(document, position);
+		if (!prefetch) {
+			const shouldContinue = await this.waitForDebounce(requestId, token);
+			if (!shouldContinue) return undefined;
+			if (!this.isLatestRequest(requestId)) return undefined;
+		}
 
-		const controller = new AbortController();
+		const controller = prefetch?.controller ?? new AbortController();
 		this.inFlightRequest = { id: requestId, controller, uri };
 		const cancellation = token.onCancellationRequested(() => {
-			controller.abort();
+			controller.abort("cancelled by editor");
 		});
 
-		try {
-			const input = this.buildInput(document, position, originalContent);
-			const responseResults = await this.api.getAutocomplete(
-				input,
-				controller.signal,
+		// Completions streamed after the first batch wait here until the first
+		// batch is rendered, then join the suggestion queue.
+		const streamed: {
+			state: "pending" | "queueing" | "closed";
+			results: AutocompleteResult[];
+		} = { state: "pending", results: [] };
+		const handleLateResults = (lateResults: AutocompleteResult[]): boolean => {
+			if (
+				streamed.state === "closed" ||
+				!this.isLatestRequest(requestId) ||
+				document.version !== requestSnapshot.version
+			) {
+				streamed.state = "closed";
+				return false;
+			}
+			const confidentResults = this.dropSuppressedEdits(
+				uri,
+				this.dropLowConfidence(lateResults),
 			);
+			if (confidentResults.length === 0) return true;
+			if (streamed.state === "pending") {
+				streamed.results.push(...confidentResults);
+				return true;
+			}
+			if (!this.appendQueuedSuggestions(uri, confidentResults)) {
+				streamed.state = "closed";
+				return false;
+			}
+			console.log("[Sweep] Queued streamed suggestions", {
+				count: confidentResults.length,
+			});
+			return true;
+		};
+
+		try {
+			let responseResults: AutocompleteResult[] | null;
+			if (prefetch) {
+				console.log("[Sweep] Using prefetched follow-on suggestion");
+				prefetch.onLateResults = handleLateResults;
+				if (prefetch.lateResults.length > 0) {
+					handleLateResults(prefetch.lateResults);
+				}
+				responseResults = await prefetch.results;
+			} else {
+				const input = this.buildInput(document, position, originalContent);
+				const requestStart = Date.now();
+				responseResults = await this.api.getAutocomplete(
+					input,
+					controller.signal,
+					handleLateResults,
+				);
+				if (!controller.signal.aborted) {
+					this.debounce.recordLatency(Date.now() - requestStart);
+				}
+			}
 
 			if (
 				!config.enabled ||
@@ -158,6 +246,8 @@ export class InlineEditProvider implements vscode.InlineCompletionItemProvider {
 				}
 				results = extendedResults;
 			}
+			results = this.dropSuppressedEdits(uri, this.dropLowConfidence(results));
+			if (results.length === 0) return undefined;
 
 			if (isLatestRequest && this.isRequestStale(requestSnapshot, token)) {
 				console.log("[Sweep] Inline edit response stale; skipping render", {
@@ -182,11 +272,32 @@ export class InlineEditProvider implements vscode.InlineCompletionItemProvider {
 
 			this.clearSuggestionQueue("superseded by fresh response");
 
+			// Only the most confident alternative for a region is queued; the
+			// others are reachable through cycleAlternative.
+			const groups = groupAlternatives(results);
+			this.alternativeGroups = new Map(
+				groups.flatMap((group) =>
+					group.length > 1
+						? group.map((member) => [member.id, group] as const)
+						: [],
+				),
+			);
+
 			let renderMode: "INLINE" | "JUMP" | null = null;
 			const inlineResults: AutocompleteResult[] = [];
 			let jumpResult: AutocompleteResult | null = null;
 
-			for (const result of results) {
+			for (const [result] of groups) {
+				if (!result) continue;
+				if (result.targetUri) {
+					// Edits in other files can only be shown as a jump hint.
+					if (!renderMode) {
+						renderMode = "JUMP";
+						jumpResult = result;
+					}
+					continue;
+				}
+
 				const normalizedResult = this.normalizeInlineResult(
 					document,
 					position,
@@ -240,7 +351,11 @@ export class InlineEditProvider implements vscode.InlineCompletionItemProvider {
 						id: jumpResult.id,
 					},
 				);
-				this.jumpEditManager.setPendingJumpEdit(document, jumpResult);
+				this.jumpEditManager.setPendingJumpEdit(
+					document,
+					jumpResult,
+					this.getAlternativePosition(jumpResult),
+				);
 				return undefined;
 			}
 
@@ -255,7 +370,11 @@ export class InlineEditProvider implements vscode.InlineCompletionItemProvider {
 				this.clearSuggestionQueue("missing first inline suggestion");
 				return undefined;
 			}
-			this.setSuggestionQueue(uri, inlineResults.slice(1));
+			this.setSuggestionQueue(uri, [
+				...inlineResults.slice(1),
+				...streamed.results,
+			]);
+			streamed.state = "queueing";
 
 			// Clear any stale jump indicator
 			this.jumpEditManager.clearJumpEdit();
@@ -274,9 +393,18 @@ export class InlineEditProvider implements vscode.InlineCompletionItemProvider {
 			console.error("[Sweep] InlineEditProvider error:", error);
 			return undefined;
 		} finally {
+			if (streamed.state === "pending") {
+				streamed.state = "closed";
+			}
 			cancellation.dispose();
-			if (this.inFlightRequest?.id === requestId) {
-				this.inFlightRequest = null;
+			// A stream feeding the suggestion queue stays in flight until the
+			// next request supersedes it; any other stream has no one left to
+			// take what it sends.
+			if (streamed.state === "closed") {
+				controller.abort("late results no longer wanted");
+				if (this.inFlightRequest?.id === requestId) {
+					this.inFlightRequest = null;
+				}
 			}
 		}
 	}
@@ -284,10 +412,108 @@ export class InlineEditProvider implements vscode.InlineCompletionItemProvider {
 	private cancelInFlightRequest(reason: string): void {
 		if (!this.inFlightRequest) return;
 		console.log("[Sweep] Cancelling in-flight inline edit request:", reason);
-		this.inFlightRequest.controller.abort();
+		this.inFlightRequest.controller.abort(reason);
 		this.inFlightRequest = null;
 	}
 
+	/**
+	 * Requests the follow-on edit as soon as a suggestion is accepted, so it
+	 * is ready when the editor next asks instead of waiting out the debounce.
+	 */
+	async prefetchAfterAccept(): Promise<void> {
+		this.cancelPrefetch("superseded by new accept");
+		const prefetchId = this.prefetchCounter;
+		const editor = vscode.window.activeTextEditor;
+		if (!editor || !config.enabled || config.isAutocompleteSnoozed()) return;
+
+		const document = editor.document;
+		const suppressionReason = await this.getSuppressionReason(document);
+		if (prefetchId !== this.prefetchCounter) return;
+		if (suppressionReason) {
+			console.log("[Sweep] Skipping prefetch:", suppressionReason);
+			return;
+		}
+
+		const uri = document.uri.toString();
+		if (this.sweepIgnore.isIgnored(document.uri)) return;
+		const currentContent = document.getText();
+		const originalContent =
+			this.tracker.getOriginalContent(uri) ?? currentContent;
+		if (isFileTooLarge(currentContent) || isFileTooLarge(originalContent)) {
+			return;
+		}
+		if (currentContent === originalContent) return;
+
+		const position = editor.selection.active;
+		const controller = new AbortController();
+		const prefetch: PrefetchedRequest = {
+			uri,
+			version: document.version,
+			offset: document.offsetAt(position),
+			controller,
+			results: Promise.resolve(null),
+			lateResults: [],
+			onLateResults: null,
+		};
+		prefetch.results = this.api
+			.getAutocomplete(
+				this.buildInput(document, position, originalContent),
+				controller.signal,
+				(lateResults) => {
+					if (prefetch.onLateResults) {
+						return prefetch.onLateResults(lateResults);
+					}
+					prefetch.lateResults.push(...lateResults);
+					return true;
+				},
+			)
+			.catch((error) => {
+				console.error("[Sweep] Prefetch failed:", error);
+				return null;
+			});
+		this.prefetchedRequest = prefetch;
+		console.log("[Sweep] Prefetching follow-on suggestion", {
+			uri,
+			line: position.line,
+		});
+
+		void prefetch.results.then((results) => {
+			if (this.prefetchedRequest !== prefetch || !results?.length) return;
+			// Nothing has asked for a suggestion since the accept, so ask now
+			// to show the prefetched one without waiting for the next keystroke.
+			void vscode.commands.executeCommand(
+				"editor.action.inlineSuggest.trigger",
+			);
+		});
+	}
+
+	private takePrefetchedRequest(
+		document: vscode.TextDocument,
+		position: vscode.Position,
+	): PrefetchedRequest | null {
+		const prefetch = this.prefetchedRequest;
+		if (!prefetch) return null;
+		this.prefetchedRequest = null;
+		if (
+			prefetch.uri !== document.uri.toString() ||
+			prefetch.version !== document.version ||
+			prefetch.offset !== document.offsetAt(position)
+		) {
+			prefetch.controller.abort("document changed since prefetch");
+			return null;
+		}
+		return prefetch;
+	}
+
+	private cancelPrefetch(reason: string): void {
+		// Also stops a prefetch still waiting on its suppression checks.
+		this.prefetchCounter++;
+		if (!this.prefetchedRequest) return;
+		console.log("[Sweep] Cancelling prefetch:", reason);
+		this.prefetchedRequest.controller.abort(reason);
+		this.prefetchedRequest = null;
+	}
+
 	private async getSuppressionReason(
 		document: vscode.TextDocument,
 	): Promise<string | null> {
@@ -322,6 +548,14 @@ export class InlineEditProvider implements vscode.InlineCompletionItemProvider {
 		if (inSnippetMode) return "snippet/template mode";
 
 		const uri = document.uri.toString();
+		const suppressionRegion = this.suppressionRegions.findOverlapping(
+			uri,
+			document.offsetAt(activeEditor.selection.active),
+		);
+		if (suppressionRegion) {
+			return `never-suggest region (${suppressionRegion.label})`;
+		}
+
 		if (
 			this.tracker.wasRecentBulkChange(uri, {
 				windowMs: BULK_CHANGE_LOOKBACK_MS,
@@ -363,11 +597,9 @@ export class InlineEditProvider implements vscode.InlineCompletionItemProvider {
 		requestId: number,
 		token: vscode.CancellationToken,
 	): Promise<boolean> {
-		const now = Date.now();
-		const elapsed = now - this.lastRequestTimestamp;
-		this.lastRequestTimestamp = now;
-
-		const delay = Math.max(0, INLINE_REQUEST_DEBOUNCE_MS - elapsed);
+		const decision = this.debounce.decide(Date.now());
+		console.log("[Sweep] Debouncing inline edit request", decision);
+		const delay = decision.delayMs;
 		if (delay === 0) return !token.isCancellationRequested;
 
 		await new Promise<void>((resolve) => {
@@ -385,6 +617,41 @@ export class InlineEditProvider implements vscode.InlineCompletionItemProvider {
 		return this.isLatestRequest(requestId);
 	}
 
+	private dropLowConfidence(
+		results: AutocompleteResult[],
+	): AutocompleteResult[] {
+		const minConfidence = config.minConfidence;
+		const kept = results.filter((result) => result.confidence >= minConfidence);
+		if (kept.length < results.length) {
+			console.log("[Sweep] Dropped low-confidence suggestions", {
+				dropped: results.length - kept.length,
+				minConfidence,
+			});
+		}
+		return kept;
+	}
+
+	/** Drops suggestions that would edit inside a "never suggest here" region. */
+	private dropSuppressedEdits(
+		uri: string,
+		results: AutocompleteResult[],
+	): AutocompleteResult[] {
+		const kept = results.filter(
+			(result) =>
+				!this.suppressionRegions.findOverlapping(
+					result.targetUri ?? uri,
+					result.startIndex,
+					result.endIndex,
+				),
+		);
+		if (kept.length < results.length) {
+			console.log("[Sweep] Dropped suggestions in never-suggest regions", {
+				dropped: results.length - kept.length,
+			});
+		}
+		return kept;
+	}
+
 	private isLatestRequest(requestId: number): boolean {
 		return requestId === this.latestRequestId;
 	}
@@ -417,7 +684,11 @@ export class InlineEditProvider implements vscode.InlineCompletionItemProvider {
 					id: result.id,
 				},
 			);
-			this.jumpEditManager.setPendingJumpEdit(document, result);
+			this.jumpEditManager.setPendingJumpEdit(
+				document,
+				result,
+				this.getAlternativePosition(result),
+			);
 			return undefined;
 		}
 
@@ -450,11 +721,88 @@ export class InlineEditProvider implements vscode.InlineCompletionItemProvider {
 			character: position.character,
 			version: document.version,
 			payload: metricsPayload,
+			result,
 		};
 		this.metricsTracker.trackShown(metricsPayload);
+		this.suggestionStatusEmitter.fire({
+			status: "shown",
+			uri: document.uri.toString(),
+			documentText: document.getText(),
+			result,
+		});
+
+		this.alternativeStatusMessage?.dispose();
+		const alternative = this.getAlternativePosition(result);
+		this.alternativeStatusMessage = alternative
+			? vscode.window.setStatusBarMessage(
+					`$(sweep-icon) Alternative ${alternative.index + 1}/${alternative.count} (Alt+] / Alt+[)`,
+					ALTERNATIVE_STATUS_TIMEOUT_MS,
+				)
+			: null;
 		return { items: [item] };
 	}
 
+	private getAlternativePosition(
+		result: AutocompleteResult,
+	): AlternativePosition | undefined {
+		const group = this.alternativeGroups.get(result.id);
+		if (!group) return undefined;
+		return {
+			index: group.findIndex((member) => member.id === result.id),
+			count: group.length,
+		};
+	}
+
+	/**
+	 * Replaces the displayed suggestion with the next (`step` 1) or previous
+	 * alternative for the same region. Returns false when it has none.
+	 */
+	cycleAlternative(step: 1 | -1): boolean {
+		const document = vscode.window.activeTextEditor?.document;
+		if (!document) return false;
+		const uri = document.uri.toString();
+		const inlineEdit =
+			this.lastInlineEdit?.uri === uri &&
+			this.lastInlineEdit.version === document.version
+				? this.lastInlineEdit
+				: null;
+		const current =
+			inlineEdit?.result ?? this.jumpEditManager.peekPendingJumpEdit(uri);
+		const group = current && this.alternativeGroups.get(current.id);
+		if (!current || !group) return false;
+
+		const index = group.findIndex((member) => member.id === current.id);
+		const nextIndex = (index + step + group.length) % group.length;
+		const next = group[nextIndex];
+		if (!next) return false;
+
+		if (inlineEdit) {
+			this.metricsTracker.trackDisposed(inlineEdit.payload);
+			this.suggestionStatusEmitter.fire({
+				status: "disposed",
+				id: inlineEdit.payload.id,
+			});
+			this.lastInlineEdit = null;
+		} else {
+			this.jumpEditManager.clearJumpEdit();
+		}
+		// Render the alternative through the queue so that it is normalized
+		// and classified like any other suggestion.
+		const queued =
+			this.queuedSuggestions?.uri === uri
+				? this.queuedSuggestions.suggestions
+				: [];
+		this.queuedSuggestions = { uri, suggestions: [next, ...queued] };
+		this.shouldConsumeQueuedSuggestion = true;
+		console.log("[Sweep] Showing alternative suggestion", {
+			id: next.id,
+			index: nextIndex + 1,
+			count: group.length,
+		});
+		void vscode.commands.executeCommand("editor.action.inlineSuggest.trigger");
+		return true;
+	}
+
 	async handleCursorMove(
 		document: vscode.TextDocument,
 		position: vscode.Position,
@@ -491,6 +839,48 @@ export class InlineEditProvider implements vscode.InlineCompletionItemProvider {
 		}
 	}
 
+	/**
+	 * Hands every suggestion pending for `document` (shown, jump or queued,
+	 * including edits to other files) over to the caller and stops displaying
+	 * them here.
+	 */
+	takePendingSuggestions(document: vscode.TextDocument): AutocompleteResult[] {
+		const uri = document.uri.toString();
+		const suggestions: AutocompleteResult[] = [];
+		if (this.lastInlineEdit?.uri === uri) {
+			suggestions.push(this.lastInlineEdit.result);
+			this.lastInlineEdit = null;
+			void vscode.commands.executeCommand("editor.action.inlineSuggest.hide");
+		}
+		const jumpResult = this.jumpEditManager.takePendingJumpEdit(uri);
+		if (jumpResult) suggestions.push(jumpResult);
+		if (this.queuedSuggestions?.uri === uri) {
+			suggestions.push(...this.queuedSuggestions.suggestions);
+		}
+		this.clearSuggestionQueue("handed over");
+		return suggestions;
+	}
+
+	/** The ghost text suggestion currently shown in `document`, if any. */
+	getShownInlineSuggestion(
+		document: vscode.TextDocument,
+	): AutocompleteResult | null {
+		const inlineEdit = this.lastInlineEdit;
+		if (
+			!inlineEdit ||
+			inlineEdit.uri !== document.uri.toString() ||
+			inlineEdit.version !== document.version
+		) {
+			return null;
+		}
+		return inlineEdit.result;
+	}
+
+	/** Feeds typing rhythm into the debounce; call on every user edit. */
+	recordTyping(): void {
+		this.debounce.recordKeystroke(Date.now());
+	}
+
 	handleInlineAccept(
 		payload: AutocompleteMetricsPayload,
 		acceptedSuggestion?: AcceptedInlineSuggestion,
@@ -498,6 +888,7 @@ export class InlineEditProvider implements vscode.InlineCompletionItemProvider {
 		if (this.lastInlineEdit?.payload.id === payload.id) {
 			this.lastInlineEdit = null;
 		}
+		this.suggestionStatusEmitter.fire({ status: "accepted", id: payload.id });
 		if (!acceptedSuggestion) return;
 		this.adjustQueuedSuggestionsAfterAccept(acceptedSuggestion);
 		if (this.queuedSuggestions?.suggestions.length) {
@@ -508,6 +899,7 @@ export class InlineEditProvider implements vscode.InlineCompletionItemProvider {
 			return;
 		}
 		this.clearSuggestionQueue("accepted suggestion exhausted queue");
+		void this.prefetchAfterAccept();
 	}
 
 	private clearInlineEdit(
@@ -521,8 +913,11 @@ export class InlineEditProvider implements vscode.InlineCompletionItemProvider {
 
 		if (shouldTrackDisposed) {
 			this.metricsTracker.trackDisposed(payload);
+			this.suggestionStatusEmitter.fire({ status: "disposed", id: payload.id });
 		}
 		this.lastInlineEdit = null;
+		this.alternativeStatusMessage?.dispose();
+		this.alternativeStatusMessage = null;
 		this.clearSuggestionQueue(reason ? `inline cleared: ${reason}` : undefined);
 
 		if (shouldHideSuggestion) {
@@ -547,6 +942,21 @@ export class InlineEditProvider implements vscode.InlineCompletionItemProvider {
 		this.shouldConsumeQueuedSuggestion = false;
 	}
 
+	private appendQueuedSuggestions(
+		uri: string,
+		suggestions: AutocompleteResult[],
+	): boolean {
+		if (this.queuedSuggestions?.uri === uri) {
+			this.queuedSuggestions.suggestions.push(...suggestions);
+			return true;
+		}
+		if (this.lastInlineEdit?.uri === uri) {
+			this.queuedSuggestions = { uri, suggestions: [...suggestions] };
+			return true;
+		}
+		return false;
+	}
+
 	private clearSuggestionQueue(reason?: string): void {
 		const hadQueuedSuggestions = this.queuedSuggestions !== null;
 		this.queuedSuggestions = null;
@@ -571,6 +981,19 @@ export class InlineEditProvider implements vscode.InlineCompletionItemProvider {
 		while (queue.suggestions.length > 0) {
 			const next = queue.suggestions.shift();
 			if (!next) break;
+			if (next.targetUri) {
+				console.log("[Sweep] Rendering queued cross-file jump edit", {
+					id: next.id,
+					remaining: queue.suggestions.length,
+				});
+				this.jumpEditManager.setPendingJumpEdit(
+					document,
+					next,
+					this.getAlternativePosition(next),
+				);
+				this.shouldConsumeQueuedSuggestion = false;
+				return undefined;
+			}
 			const normalized = this.normalizeInlineResult(document, position, next);
 			if (!normalized) continue;
 			if (this.isNoOpSuggestion(document, normalized)) continue;
@@ -588,7 +1011,11 @@ export class InlineEditProvider implements vscode.InlineCompletionItemProvider {
 					id: normalized.id,
 					remaining: queue.suggestions.length,
 				});
-				this.jumpEditManager.setPendingJumpEdit(document, normalized);
+				this.jumpEditManager.setPendingJumpEdit(
+					document,
+					normalized,
+					this.getAlternativePosition(normalized),
+				);
 				this.shouldConsumeQueuedSuggestion = false;
 				return undefined;
 			}
@@ -609,23 +1036,15 @@ export class InlineEditProvider implements vscode.InlineCompletionItemProvider {
 		acceptedSuggestion: AcceptedInlineSuggestion,
 	): void {
 		if (!this.queuedSuggestions?.suggestions.length) return;
-		const replacementLength =
-			acceptedSuggestion.endIndex - acceptedSuggestion.startIndex;
-		const adjustment = acceptedSuggestion.completion.length - replacementLength;
-		if (adjustment === 0) return;
-
-		this.queuedSuggestions.suggestions = this.queuedSuggestions.suggestions
-			.map((suggestion) => {
-				if (suggestion.startIndex < acceptedSuggestion.startIndex) {
-					return suggestion;
-				}
-				return {
-					...suggestion,
-					startIndex: suggestion.startIndex + adjustment,
-					endIndex: suggestion.endIndex + adjustment,
-				};
-			})
-			.filter((suggestion) => suggestion.completion.length > 0);
+		const { suggestions } = this.queuedSuggestions;
+		// Edits in other files keep their offsets; they queue behind local ones.
+		this.queuedSuggestions.suggestions = [
+			...rebaseSuggestions(
+				suggestions.filter((suggestion) => !suggestion.targetUri),
+				acceptedSuggestion,
+			),
+			...suggestions.filter((suggestion) => suggestion.targetUri),
+		].filter((suggestion) => suggestion.completion.length > 0);
 	}
 
 	private isNoOpSuggestion(
@@ -660,7 +1079,7 @@ export class InlineEditProvider implements vscode.InlineCompletionItemProvider {
 		results: AutocompleteResult[],
 	): AutocompleteResult[] | null {
 		const firstResult = results[0];
-		if (!firstResult) return null;
+		if (!firstResult || firstResult.targetUri) return null;
 
 		const currentText = document.getText();
 		const snapshotCursorOffset = Math.min(
@@ -710,11 +1129,15 @@ export class InlineEditProvider implements vscode.InlineCompletionItemProvider {
 			completion: extendedCompletion,
 		};
 		const adjustmentOffset = userInsertedText.length;
-		const adjustedRemainder = results.slice(1).map((result) => ({
-			...result,
-			startIndex: result.startIndex + adjustmentOffset,
-			endIndex: result.endIndex + adjustmentOffset,
-		}));
+		const adjustedRemainder = results.slice(1).map((result) =>
+			result.targetUri
+				? result
+				: {
+						...result,
+						startIndex: result.startIndex + adjustmentOffset,
+						endIndex: result.endIndex + adjustmentOffset,
+					},
+		);
 
 		console.log("[Sweep] Rendering extension from stale inline response", {
 			id: adjustedFirst.id,
@@ -750,10 +1173,15 @@ export class InlineEditProvider implements vscode.InlineCompletionItemProvider {
 
 		const recentBuffers = this.buildRecentBuffers(document, maxContextFiles);
 
-		const recentChanges = this.tracker.getEditDiffHistory().map((record) => ({
-			path: record.filepath,
-			diff: record.diff,
-		}));
+		const recentChanges = this.tracker
+			.getEditDiffHistory()
+			.filter(
+				(record) => !this.sweepIgnore.isIgnored(vscode.Uri.parse(record.uri)),
+			)
+			.map((record) => ({
+				path: record.filepath,
+				diff: record.diff,
+			}));
 
 		const userActions = this.tracker.getUserActions(document.fileName, {
 			line: position.line,
@@ -794,6 +1222,7 @@ export class InlineEditProvider implements vscode.InlineCompletionItemProvider {
 			maxFiles * 2,
 		);
 		for (const file of recentFiles) {
+			if (this.sweepIgnore.isIgnored(vscode.Uri.parse(file.uri))) continue;
 			const buffer = this.buildBufferFromSnapshot(file);
 			if (!buffer) continue;
 			addBuffer(buffer);
@@ -810,6 +1239,7 @@ export class InlineEditProvider implements vscode.InlineCompletionItemProvider {
 		for (const editor of vscode.window.visibleTextEditors) {
 			const document = editor.document;
 			if (document.uri.toString() === currentUri) continue;
+			if (this.sweepIgnore.isIgnored(document.uri)) continue;
 
 			const range = this.getPrimaryVisibleRange(editor);
 			const focusLine = editor.selection.active.line;
@@ -1047,4 +1477,10 @@ export class InlineEditProvider implements vscode.InlineCompletionItemProvider {
 	private trimNewlines(text: string): string {
 		return text.replace(/^\n+|\n+$/g, "");
 	}
+
+	dispose(): void {
+		this.cancelPrefetch("provider disposed");
+		this.alternativeStatusMessage?.dispose();
+		this.suggestionStatusEmitter.dispose();
+	}
 }
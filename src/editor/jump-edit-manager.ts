@@ -1,3 +1,4 @@
+import * as path from "node:path";
 import * as vscode from "vscode";
 
 import type { AutocompleteResult } from "~/api/schemas.ts";
@@ -6,6 +7,15 @@ import {
 	EDIT_RANGE_PADDING_ROWS,
 	type EditDisplayClassification,
 } from "~/editor/edit-display-classifier.ts";
+import {
+	JumpEditPreviewContentProvider,
+	PREVIEW_SCHEME,
+} from "~/editor/jump-edit-preview.ts";
+import {
+	type PartialAcceptUnit,
+	splitPartialAccept,
+} from "~/editor/partial-accept.ts";
+import type { AlternativePosition } from "~/editor/suggestion-offsets.ts";
 import {
 	createHighlightedBoxDecoration,
 	createHighlightedBoxDecorationMultiline,
@@ -16,6 +26,7 @@ import {
 	type AutocompleteMetricsTracker,
 	buildMetricsPayload,
 } from "~/telemetry/autocomplete-metrics.ts";
+import type { SuggestionStatusEvent } from "~/telemetry/suggestion-history.ts";
 
 const HINT_DECORATION_TYPE = vscode.window.createTextEditorDecorationType({
 	after: {
@@ -29,9 +40,16 @@ const REMOVAL_DECORATION_TYPE = vscode.window.createTextEditorDecorationType({
 	backgroundColor: "rgba(255, 90, 90, 0.22)",
 });
 
+// Edits spanning more lines than this are reviewed in a diff editor instead
+// of the floating box, which gets unreadable at that size.
+const LARGE_EDIT_LINE_THRESHOLD = 12;
+
 interface PendingJumpEdit {
 	result: AutocompleteResult;
+	/** Document the edit applies to. */
 	uri: string;
+	/** Document showing the hint; differs from `uri` for cross-file edits. */
+	originUri: string;
 	targetLine: number;
 	originalLines: string[];
 	newLines: string[];
@@ -39,6 +57,12 @@ interface PendingJumpEdit {
 	editEndPos: vscode.Position;
 	originCursorLine: number;
 	metricsPayload: AutocompleteMetricsPayload;
+	/** Set once part of the edit was applied and reported as accepted. */
+	partiallyAccepted: boolean;
+	/** Set while the edit is shown in a diff editor. */
+	previewing: boolean;
+	/** Set when the response offered other alternatives for this region. */
+	alternative?: AlternativePosition;
 }
 
 export class JumpEditManager implements vscode.Disposable {
@@ -48,27 +72,67 @@ export class JumpEditManager implements vscode.Disposable {
 		{},
 	);
 	private refreshNonce = 0;
+	private applyingPartialAccept = false;
+	private previewProvider = new JumpEditPreviewContentProvider();
+	private suggestionStatusEmitter =
+		new vscode.EventEmitter<SuggestionStatusEvent>();
 	private metricsTracker: AutocompleteMetricsTracker;
 
+	/** Fires as jump edits are shown, accepted or disposed. */
+	readonly onDidChangeSuggestionStatus = this.suggestionStatusEmitter.event;
+
 	constructor(metricsTracker: AutocompleteMetricsTracker) {
 		this.metricsTracker = metricsTracker;
 		this.disposables.push(
+			this.previewProvider,
+			vscode.workspace.registerTextDocumentContentProvider(
+				PREVIEW_SCHEME,
+				this.previewProvider,
+			),
 			vscode.workspace.onDidChangeTextDocument((event) => {
+				const changedUri = event.document.uri.toString();
 				if (
 					this.pendingJumpEdit &&
-					event.document.uri.toString() === this.pendingJumpEdit.uri &&
+					!this.applyingPartialAccept &&
+					(changedUri === this.pendingJumpEdit.uri ||
+						changedUri === this.pendingJumpEdit.originUri) &&
 					event.contentChanges.length > 0
 				) {
 					console.log("[Sweep] Jump edit cleared: source document changed");
 					this.clearJumpEdit();
 				}
 			}),
-			vscode.window.onDidChangeActiveTextEditor(() => {
-				if (this.pendingJumpEdit) {
+			vscode.window.onDidChangeActiveTextEditor((editor) => {
+				if (
+					this.pendingJumpEdit &&
+					!this.pendingJumpEdit.previewing &&
+					editor?.document.uri.toString() !== this.pendingJumpEdit.originUri
+				) {
 					console.log("[Sweep] Jump edit cleared: active editor changed");
 					this.clearJumpEdit();
 				}
 			}),
+			vscode.window.tabGroups.onDidChangeTabs((event) => {
+				const pendingJumpEdit = this.pendingJumpEdit;
+				if (
+					!pendingJumpEdit?.previewing ||
+					!event.closed.some(
+						(tab) =>
+							tab.input instanceof vscode.TabInputTextDiff &&
+							tab.input.modified.scheme === PREVIEW_SCHEME,
+					)
+				) {
+					return;
+				}
+				pendingJumpEdit.previewing = false;
+				const editor = vscode.window.activeTextEditor;
+				if (editor?.document.uri.toString() !== pendingJumpEdit.originUri) {
+					console.log("[Sweep] Jump edit cleared: preview closed");
+					this.clearJumpEdit();
+					return;
+				}
+				this.refreshJumpEditDecorations();
+			}),
 		);
 	}
 
@@ -103,6 +167,7 @@ export class JumpEditManager implements vscode.Disposable {
 			startIndex: result.startIndex,
 			completion: result.completion,
 			isOnSingleNewlineBoundary,
+			confidence: result.confidence,
 		});
 
 		console.log("[Sweep] Edit display classification:", {
@@ -113,6 +178,7 @@ export class JumpEditManager implements vscode.Disposable {
 			isOnSingleNewlineBoundary,
 			paddedStart,
 			paddedEnd,
+			confidence: result.confidence,
 			classification,
 		});
 
@@ -122,6 +188,7 @@ export class JumpEditManager implements vscode.Disposable {
 	setPendingJumpEdit(
 		document: vscode.TextDocument,
 		result: AutocompleteResult,
+		alternative?: AlternativePosition,
 	): void {
 		this.clearJumpEdit();
 
@@ -130,20 +197,60 @@ export class JumpEditManager implements vscode.Disposable {
 			return;
 		}
 
-		const editStartPos = document.positionAt(result.startIndex);
-		const editEndPos = document.positionAt(result.endIndex);
+		const targetDocument = result.targetUri
+			? vscode.workspace.textDocuments.find(
+					(candidate) => candidate.uri.toString() === result.targetUri,
+				)
+			: document;
+		if (!targetDocument) {
+			console.log("[Sweep] Jump edit target is no longer open", {
+				targetUri: result.targetUri,
+			});
+			return;
+		}
+
+		this.pendingJumpEdit = this.createPendingJumpEdit(targetDocument, result, {
+			originUri: document.uri.toString(),
+			originCursorLine: editor.selection.active.line,
+			metricsPayload: buildMetricsPayload(targetDocument, result, {
+				suggestionType: "JUMP_TO_EDIT",
+			}),
+			...(alternative !== undefined ? { alternative } : {}),
+		});
+
+		this.metricsTracker.trackShown(this.pendingJumpEdit.metricsPayload);
+		this.suggestionStatusEmitter.fire({
+			status: "shown",
+			uri: targetDocument.uri.toString(),
+			documentText: targetDocument.getText(),
+			result,
+		});
+		this.applyDecorations(editor, document);
+		vscode.commands.executeCommand("setContext", "sweep.hasJumpEdit", true);
+	}
+
+	private createPendingJumpEdit(
+		targetDocument: vscode.TextDocument,
+		result: AutocompleteResult,
+		origin: Pick<
+			PendingJumpEdit,
+			"originUri" | "originCursorLine" | "metricsPayload" | "alternative"
+		> & { partiallyAccepted?: boolean },
+	): PendingJumpEdit {
+		const editStartPos = targetDocument.positionAt(result.startIndex);
+		const editEndPos = targetDocument.positionAt(result.endIndex);
 		const startLine = editStartPos.line;
 		const endLine = editEndPos.line;
 
 		const originalLines: string[] = [];
 		for (let i = startLine; i <= endLine; i++) {
-			originalLines.push(document.lineAt(i).text);
+			originalLines.push(targetDocument.lineAt(i).text);
 		}
 
-		const prefixOnStartLine = document
+		const prefixOnStartLine = targetDocument
 			.lineAt(startLine)
 			.text.slice(0, editStartPos.character);
-		const suffixOnEndLine = document
+		const suffixOnEndLine = targetDocument
 			.lineAt(endLine)
 			.text.slice(editEndPos.character);
 		const fullNewContent =
@@ -157,27 +264,22 @@ export class JumpEditManager implements vscode.Disposable {
 			newLines: newLines.map((l) => l.slice(0, 40)),
 		});
 
-		this.pendingJumpEdit = {
+		return {
 			result,
-			uri: document.uri.toString(),
+			uri: targetDocument.uri.toString(),
 			targetLine: startLine,
 			originalLines,
 			newLines,
 			editStartPos,
 			editEndPos,
-			originCursorLine: editor.selection.active.line,
-			metricsPayload: buildMetricsPayload(document, result, {
-				suggestionType: "JUMP_TO_EDIT",
-			}),
+			partiallyAccepted: false,
+			previewing: false,
+			...origin,
 		};
-
-		this.metricsTracker.trackShown(this.pendingJumpEdit.metricsPayload);
-		this.applyDecorations(editor, document);
-		vscode.commands.executeCommand("setContext", "sweep.hasJumpEdit", true);
 	}
 
 	handleCursorMove(position: vscode.Position): void {
-		if (!this.pendingJumpEdit) return;
+		if (!this.pendingJumpEdit || this.pendingJumpEdit.previewing) return;
 		if (position.line !== this.pendingJumpEdit.originCursorLine) {
 			console.log("[Sweep] Jump edit cleared: cursor moved off origin line", {
 				originLine: this.pendingJumpEdit.originCursorLine,
@@ -192,6 +294,10 @@ export class JumpEditManager implements vscode.Disposable {
 		document: vscode.TextDocument,
 	): void {
 		if (!this.pendingJumpEdit) return;
+		if (document.uri.toString() !== this.pendingJumpEdit.uri) {
+			this.applyCrossFileHint(editor);
+			return;
+		}
 
 		const {
 			editStartPos,
@@ -383,29 +489,186 @@ export class JumpEditManager implements vscode.Disposable {
 			}
 		}
 
+		const isLargeEdit = this.isLargeEdit(this.pendingJumpEdit);
 		editor.setDecorations(REMOVAL_DECORATION_TYPE, removalRanges);
-		editor.setDecorations(this.svgBoxDecorationType, floatingBoxOptions);
+		editor.setDecorations(
+			this.svgBoxDecorationType,
+			isLargeEdit ? [] : floatingBoxOptions,
+		);
 
 		const cursorLine = editor.selection.active.line;
 		const editEndLine = editEndPos.line;
 		const isOnAffectedLine =
 			cursorLine >= startLine && cursorLine <= editEndLine;
 
-		if (!isOnAffectedLine) {
+		if (isLargeEdit) {
+			editor.setDecorations(HINT_DECORATION_TYPE, [
+				{
+					range: new vscode.Range(cursorLine, 0, cursorLine, 0),
+					renderOptions: {
+						after: {
+							contentText: `→ ${maxLines}-line edit at line ${targetLine + 1} (Tab to review, Esc ✗)${this.describeAlternative()}`,
+						},
+					},
+				},
+			]);
+		} else if (!isOnAffectedLine) {
 			const hintDecoration: vscode.DecorationOptions = {
 				range: new vscode.Range(cursorLine, 0, cursorLine, 0),
 				renderOptions: {
 					after: {
-						contentText: `→ Edit at line ${targetLine + 1} (Tab ✓, Esc ✗)`,
+						contentText: `→ Edit at line ${targetLine + 1} (Tab ✓, Esc ✗)${this.describeAlternative()}`,
 					},
 				},
 			};
 			editor.setDecorations(HINT_DECORATION_TYPE, [hintDecoration]);
+		} else if (this.pendingJumpEdit.alternative) {
+			const { index, count } = this.pendingJumpEdit.alternative;
+			editor.setDecorations(HINT_DECORATION_TYPE, [
+				{
+					range: new vscode.Range(cursorLine, 0, cursorLine, 0),
+					renderOptions: {
+						after: {
+							contentText: `Alternative ${index + 1}/${count} (Alt+] / Alt+[)`,
+						},
+					},
+				},
+			]);
 		} else {
 			editor.setDecorations(HINT_DECORATION_TYPE, []);
 		}
 	}
 
+	private describeAlternative(): string {
+		const alternative = this.pendingJumpEdit?.alternative;
+		return alternative
+			? ` · ${alternative.index + 1}/${alternative.count}`
+			: "";
+	}
+
+	private applyCrossFileHint(editor: vscode.TextEditor): void {
+		if (!this.pendingJumpEdit) return;
+		const { uri, targetLine } = this.pendingJumpEdit;
+		const fileName = path.basename(vscode.Uri.parse(uri).fsPath);
+		const cursorLine = editor.selection.active.line;
+		editor.setDecorations(REMOVAL_DECORATION_TYPE, []);
+		editor.setDecorations(this.svgBoxDecorationType, []);
+		editor.setDecorations(HINT_DECORATION_TYPE, [
+			{
+				range: new vscode.Range(cursorLine, 0, cursorLine, 0),
+				renderOptions: {
+					after: {
+						contentText: `→ Next edit in ${fileName}:${targetLine + 1} (Tab ✓, Esc ✗)${this.describeAlternative()}`,
+					},
+				},
+			},
+		]);
+	}
+
+	private isLargeEdit(pendingJumpEdit: PendingJumpEdit): boolean {
+		return (
+			Math.max(
+				pendingJumpEdit.originalLines.length,
+				pendingJumpEdit.newLines.length,
+			) > LARGE_EDIT_LINE_THRESHOLD
+		);
+	}
+
+	/**
+	 * Opens the target of a cross-file jump edit and shows its diff box there,
+	 * leaving the edit pending so that a second Tab applies it.
+	 */
+	private async revealCrossFileJumpEdit(
+		pendingJumpEdit: PendingJumpEdit,
+	): Promise<void> {
+		const editor = await this.showJumpEditTarget(pendingJumpEdit);
+		if (!editor) return;
+
+		editor.revealRange(
+			new vscode.Range(
+				pendingJumpEdit.editStartPos,
+				pendingJumpEdit.editEndPos,
+			),
+			vscode.TextEditorRevealType.InCenterIfOutsideViewport,
+		);
+		this.applyDecorations(editor, editor.document);
+		console.log("[Sweep] Revealed cross-file jump edit", {
+			targetLine: pendingJumpEdit.editStartPos.line + 1,
+		});
+	}
+
+	/**
+	 * Focuses the document the edit applies to with the cursor on the edit;
+	 * resolves with null if the edit is no longer pending afterwards.
+	 */
+	private async showJumpEditTarget(
+		pendingJumpEdit: PendingJumpEdit,
+	): Promise<vscode.TextEditor | null> {
+		const targetUri = vscode.Uri.parse(pendingJumpEdit.uri);
+		const { editStartPos } = pendingJumpEdit;
+		// Clear the hint first: decorations are cleared on the active editor.
+		this.clearDecorations();
+		// Move the origin along before switching so the editor change and the
+		// cursor landing on the edit don't clear the jump edit.
+		pendingJumpEdit.originUri = pendingJumpEdit.uri;
+		pendingJumpEdit.originCursorLine = editStartPos.line;
+
+		let editor: vscode.TextEditor;
+		try {
+			editor = await vscode.window.showTextDocument(targetUri, {
+				selection: new vscode.Range(editStartPos, editStartPos),
+			});
+		} catch (error) {
+			console.error("[Sweep] Failed to open jump edit target:", error);
+			this.clearJumpEdit();
+			return null;
+		}
+		return this.pendingJumpEdit === pendingJumpEdit ? editor : null;
+	}
+
+	/**
+	 * Opens a diff editor comparing the target document with the pending jump
+	 * edit applied; the edit stays pending until accepted or rejected there.
+	 */
+	async previewJumpEdit(): Promise<void> {
+		const pendingJumpEdit = this.pendingJumpEdit;
+		if (!pendingJumpEdit) return;
+		const targetDocument = vscode.workspace.textDocuments.find(
+			(candidate) => candidate.uri.toString() === pendingJumpEdit.uri,
+		);
+		if (!targetDocument) {
+			this.clearJumpEdit();
+			return;
+		}
+
+		this.clearDecorations();
+		pendingJumpEdit.previewing = true;
+		console.log("[Sweep] Previewing jump edit in diff editor", {
+			targetLine: pendingJumpEdit.targetLine + 1,
+		});
+		try {
+			await this.previewProvider.openDiff(
+				targetDocument,
+				pendingJumpEdit.result,
+			);
+		} catch (error) {
+			console.error("[Sweep] Failed to open jump edit preview:", error);
+			pendingJumpEdit.previewing = false;
+			this.refreshJumpEditDecorations();
+		}
+	}
+
+	/** Closes the diff preview and applies the jump edit it shows. */
+	async acceptJumpEditPreview(): Promise<boolean> {
+		const pendingJumpEdit = this.pendingJumpEdit;
+		if (!pendingJumpEdit?.previewing) return false;
+		pendingJumpEdit.previewing = false;
+		await this.previewProvider.closeDiffs();
+		if (this.pendingJumpEdit !== pendingJumpEdit) return false;
+		if (!(await this.showJumpEditTarget(pendingJumpEdit))) return false;
+		return this.acceptJumpEdit({ skipPreview: true });
+	}
+
 	private getLineDiff(
 		oldLine: string,
 		newLine: string,
@@ -438,20 +701,39 @@ export class JumpEditManager implements vscode.Disposable {
 		return { oldChanged, newChanged, prefixLen, suffixLen };
 	}
 
-	async acceptJumpEdit(): Promise<void> {
+	/**
+	 * Applies the pending jump edit; resolves with whether it was applied.
+	 * Large edits open in the diff preview first unless `skipPreview` is set.
+	 */
+	async acceptJumpEdit(options?: { skipPreview?: boolean }): Promise<boolean> {
 		if (!this.pendingJumpEdit) {
 			console.log("[Sweep] acceptJumpEdit called but no pending jump edit");
-			return;
+			return false;
 		}
 
 		const pendingJumpEdit = this.pendingJumpEdit;
+		if (pendingJumpEdit.previewing) {
+			return this.acceptJumpEditPreview();
+		}
+		if (!options?.skipPreview && this.isLargeEdit(pendingJumpEdit)) {
+			await this.previewJumpEdit();
+			return false;
+		}
 		const editor = vscode.window.activeTextEditor;
+		if (
+			editor &&
+			pendingJumpEdit.originUri !== pendingJumpEdit.uri &&
+			editor.document.uri.toString() === pendingJumpEdit.originUri
+		) {
+			await this.revealCrossFileJumpEdit(pendingJumpEdit);
+			return false;
+		}
 		if (!editor || editor.document.uri.toString() !== pendingJumpEdit.uri) {
 			console.log(
 				"[Sweep] acceptJumpEdit: editor mismatch, clearing jump edit",
 			);
 			this.clearJumpEdit();
-			return;
+			return false;
 		}
 
 		const { result } = pendingJumpEdit;
@@ -471,7 +753,15 @@ export class JumpEditManager implements vscode.Disposable {
 		);
 
 		if (success) {
-			this.metricsTracker.trackAccepted(pendingJumpEdit.metricsPayload);
+			// A partial accept already reported this suggestion.
+			if (!pendingJumpEdit.partiallyAccepted) {
+				this.metricsTracker.trackAccepted(pendingJumpEdit.metricsPayload, {
+					document: editor.document,
+					startOffset: result.startIndex,
+					endOffset: result.startIndex + result.completion.length,
+				});
+			}
+			this.suggestionStatusEmitter.fire({ status: "accepted", id: result.id });
 			const endsWithNewline = result.completion.endsWith("\n");
 			const insertedLines = result.completion.split("\n");
 			const contentLineCount = endsWithNewline
@@ -492,6 +782,138 @@ export class JumpEditManager implements vscode.Disposable {
 		}
 
 		this.clearJumpEdit({ trackDisposed: false });
+		return success;
+	}
+
+	/**
+	 * Applies the next word or line of the pending jump edit and keeps the
+	 * rest pending, decorated against the updated document.
+	 */
+	async acceptJumpEditPartially(unit: PartialAcceptUnit): Promise<void> {
+		const pendingJumpEdit = this.pendingJumpEdit;
+		if (!pendingJumpEdit || pendingJumpEdit.previewing) return;
+		const editor = vscode.window.activeTextEditor;
+		if (
+			editor &&
+			pendingJumpEdit.originUri !== pendingJumpEdit.uri &&
+			editor.document.uri.toString() === pendingJumpEdit.originUri
+		) {
+			await this.revealCrossFileJumpEdit(pendingJumpEdit);
+			return;
+		}
+		if (!editor || editor.document.uri.toString() !== pendingJumpEdit.uri) {
+			this.clearJumpEdit();
+			return;
+		}
+
+		const document = editor.document;
+		const { result } = pendingJumpEdit;
+		const oldText = document.getText(
+			new vscode.Range(
+				pendingJumpEdit.editStartPos,
+				pendingJumpEdit.editEndPos,
+			),
+		);
+		const { applied, remaining } = splitPartialAccept(oldText, result, unit);
+
+		this.applyingPartialAccept = true;
+		let success: boolean;
+		try {
+			success = await editor.edit(
+				(editBuilder) => {
+					editBuilder.replace(
+						new vscode.Range(
+							document.positionAt(applied.startIndex),
+							document.positionAt(applied.endIndex),
+						),
+						applied.completion,
+					);
+				},
+				{ undoStopBefore: true, undoStopAfter: true },
+			);
+		} finally {
+			this.applyingPartialAccept = false;
+		}
+		if (!success || this.pendingJumpEdit !== pendingJumpEdit) {
+			console.error("[Sweep] Failed to apply partial jump edit");
+			return;
+		}
+
+		if (!pendingJumpEdit.partiallyAccepted) {
+			this.metricsTracker.trackAccepted(pendingJumpEdit.metricsPayload, {
+				document,
+				startOffset: applied.startIndex,
+				endOffset: applied.startIndex + applied.completion.length,
+			});
+			this.suggestionStatusEmitter.fire({ status: "accepted", id: result.id });
+		}
+
+		const cursor = document.positionAt(
+			applied.startIndex + applied.completion.length,
+		);
+		editor.selection = new vscode.Selection(cursor, cursor);
+		if (!remaining) {
+			console.log("[Sweep] Partial accept completed jump edit");
+			this.clearJumpEdit({ trackDisposed: false });
+			return;
+		}
+
+		this.clearDecorations();
+		this.pendingJumpEdit = this.createPendingJumpEdit(
+			document,
+			{ ...result, ...remaining },
+			{
+				originUri: pendingJumpEdit.originUri,
+				originCursorLine: cursor.line,
+				metricsPayload: pendingJumpEdit.metricsPayload,
+				partiallyAccepted: true,
+			},
+		);
+		console.log("[Sweep] Partially accepted jump edit", {
+			unit,
+			remainingLength: remaining.completion.length,
+		});
+		this.applyDecorations(editor, document);
+	}
+
+	/**
+	 * The jump edit pending while `uri` is shown, unless it was partially
+	 * accepted or is being previewed.
+	 */
+	peekPendingJumpEdit(uri: string): AutocompleteResult | null {
+		const pendingJumpEdit = this.pendingJumpEdit;
+		if (
+			!pendingJumpEdit ||
+			pendingJumpEdit.originUri !== uri ||
+			pendingJumpEdit.partiallyAccepted ||
+			pendingJumpEdit.previewing
+		) {
+			return null;
+		}
+		return pendingJumpEdit.result;
+	}
+
+	/** The jump edit pending for `uri` as its target, unless previewed. */
+	getPendingJumpEditIn(uri: string): AutocompleteResult | null {
+		const pendingJumpEdit = this.pendingJumpEdit;
+		if (
+			!pendingJumpEdit ||
+			pendingJumpEdit.uri !== uri ||
+			pendingJumpEdit.previewing
+		) {
+			return null;
+		}
+		return pendingJumpEdit.result;
+	}
+
+	/** Hands over the jump edit pending while `uri` is shown. */
+	takePendingJumpEdit(uri: string): AutocompleteResult | null {
+		const pendingJumpEdit = this.pendingJumpEdit;
+		if (!pendingJumpEdit || pendingJumpEdit.originUri !== uri) {
+			return null;
+		}
+		this.clearJumpEdit({ trackDisposed: false });
+		return pendingJumpEdit.result;
 	}
 
 	dismissJumpEdit(): void {
@@ -503,13 +925,16 @@ export class JumpEditManager implements vscode.Disposable {
 		if (!this.pendingJumpEdit) return;
 		this.clearDecorations();
 		this.resetSvgDecorationType();
-		const pendingUri = this.pendingJumpEdit.uri;
+		const pendingUri = this.pendingJumpEdit.originUri;
 		this.refreshNonce += 1;
 		const refreshToken = this.refreshNonce;
 		const scheduleRefresh = (delay: number) => {
 			setTimeout(() => {
 				if (this.refreshNonce !== refreshToken) return;
-				if (!this.pendingJumpEdit || this.pendingJumpEdit.uri !== pendingUri) {
+				if (
+					!this.pendingJumpEdit ||
+					this.pendingJumpEdit.originUri !== pendingUri
+				) {
 					return;
 				}
 				const editor = vscode.window.activeTextEditor;
@@ -534,8 +959,19 @@ export class JumpEditManager implements vscode.Disposable {
 	clearJumpEdit(options?: { trackDisposed?: boolean }): void {
 		const hadPending = this.pendingJumpEdit !== null;
 		const shouldTrackDisposed = options?.trackDisposed ?? true;
-		if (this.pendingJumpEdit && shouldTrackDisposed) {
+		if (
+			this.pendingJumpEdit &&
+			shouldTrackDisposed &&
+			!this.pendingJumpEdit.partiallyAccepted
+		) {
 			this.metricsTracker.trackDisposed(this.pendingJumpEdit.metricsPayload);
+			this.suggestionStatusEmitter.fire({
+				status: "disposed",
+				id: this.pendingJumpEdit.result.id,
+			});
+		}
+		if (this.pendingJumpEdit?.previewing) {
+			void this.previewProvider.closeDiffs();
 		}
 		this.pendingJumpEdit = null;
 		this.clearDecorations();
@@ -557,6 +993,7 @@ export class JumpEditManager implements vscode.Disposable {
 	dispose(): void {
 		this.clearJumpEdit();
 		this.svgBoxDecorationType.dispose();
+		this.suggestionStatusEmitter.dispose();
 		for (const d of this.disposables) {
 			d.dispose();
 		}
@@ -0,0 +1,88 @@
+import * as vscode from "vscode";
+
+import type { AutocompleteResult } from "~/api/schemas.ts";
+
+export const PREVIEW_SCHEME = "sweep-preview";
+
+type PreviewedEdit = Pick<
+	AutocompleteResult,
+	"startIndex" | "endIndex" | "completion"
+>;
+
+/**
+ * Serves read-only documents (`sweep-preview:` by default) holding a file's
+ * contents with a suggestion applied, for `vscode.diff` against the real file.
+ */
+export class JumpEditPreviewContentProvider
+	implements vscode.TextDocumentContentProvider, vscode.Disposable
+{
+	private contents = new Map<string, string>();
+	private changeEmitter = new vscode.EventEmitter<vscode.Uri>();
+	private scheme: string;
+
+	readonly onDidChange = this.changeEmitter.event;
+
+	constructor(scheme = PREVIEW_SCHEME) {
+		this.scheme = scheme;
+	}
+
+	provideTextDocumentContent(uri: vscode.Uri): string {
+		return this.contents.get(uri.toString()) ?? "";
+	}
+
+	/** Opens a diff of `document` against `document` with `result` applied. */
+	async openDiff(
+		document: vscode.TextDocument,
+		result: PreviewedEdit,
+		title = "Sweep suggestion",
+	): Promise<void> {
+		const text = document.getText();
+		// Keep the path so the preview gets the same language mode.
+		const previewUri = document.uri.with({
+			scheme: this.scheme,
+			query: `original=${encodeURIComponent(document.uri.toString())}`,
+		});
+		this.contents.set(
+			previewUri.toString(),
+			text.slice(0, result.startIndex) +
+				result.completion +
+				text.slice(result.endIndex),
+		);
+		this.changeEmitter.fire(previewUri);
+
+		const fileName = document.uri.path.split("/").pop() ?? "file";
+		await vscode.commands.executeCommand(
+			"vscode.diff",
+			document.uri,
+			previewUri,
+			`${fileName} ↔ ${title}`,
+			{
+				preview: true,
+				selection: new vscode.Range(
+					document.positionAt(result.startIndex),
+					document.positionAt(result.startIndex),
+				),
+			},
+		);
+	}
+
+	/** Closes every open diff of a preview document. */
+	async closeDiffs(): Promise<void> {
+		const tabs = vscode.window.tabGroups.all
+			.flatMap((group) => group.tabs)
+			.filter(
+				(tab) =>
+					tab.input instanceof vscode.TabInputTextDiff &&
+					tab.input.modified.scheme === this.scheme,
+			);
+		if (tabs.length > 0) {
+			await vscode.window.tabGroups.close(tabs);
+		}
+		this.contents.clear();
+	}
+
+	dispose(): void {
+		this.contents.clear();
+		this.changeEmitter.dispose();
+	}
+}
@@ -0,0 +1,123 @@
+export interface TextReplacement {
+	startIndex: number;
+	endIndex: number;
+	completion: string;
+}
+
+export interface PartialAcceptStep {
+	/** Replacement to apply now, in current document offsets. */
+	applied: TextReplacement;
+	/**
+	 * What is left of the suggestion once `applied` is in the document, or
+	 * null when nothing is left.
+	 */
+	remaining: TextReplacement | null;
+}
+
+export type PartialAcceptUnit = "word" | "line";
+
+const NEXT_TOKEN_PATTERN = /^\s*(?:\w+|[^\w\s]+)/;
+const NEXT_WORD_PATTERN = /^\s*\w+/;
+
+/**
+ * Splits `edit` into the next word or line to apply and the rest. `oldText`
+ * is the document text the edit replaces.
+ */
+export function splitPartialAccept(
+	oldText: string,
+	edit: TextReplacement,
+	unit: PartialAcceptUnit,
+): PartialAcceptStep {
+	const newText = edit.completion;
+	const prefix = commonPrefixLength(oldText, newText);
+	let acceptedNew: number;
+	let consumedOld: number;
+
+	if (unit === "line") {
+		const newLineEnd = newText.indexOf("\n", prefix);
+		if (newLineEnd === -1) {
+			acceptedNew = newText.length;
+			consumedOld = oldText.length;
+		} else {
+			acceptedNew = newLineEnd + 1;
+			const oldLineStart = oldText.lastIndexOf("\n", prefix - 1) + 1;
+			const oldLineEnd = oldText.indexOf("\n", prefix);
+			const oldLine = oldText.slice(
+				oldLineStart,
+				oldLineEnd === -1 ? oldText.length : oldLineEnd,
+			);
+			// A line the rest of the suggestion keeps is pushed down, not
+			// replaced.
+			const isKept = newText.slice(acceptedNew).split("\n").includes(oldLine);
+			consumedOld = isKept
+				? prefix
+				: oldLineEnd === -1
+					? oldText.length
+					: oldLineEnd + 1;
+		}
+	} else {
+		const newRest = newText.slice(prefix);
+		const token = NEXT_TOKEN_PATTERN.exec(newRest)?.[0] ?? newRest;
+		acceptedNew = prefix + token.length;
+		// A word takes the place of the next old word when both start the
+		// same way and the rest of the suggestion does not keep it; anything
+		// else is inserted.
+		const oldWord = NEXT_WORD_PATTERN.exec(oldText.slice(prefix))?.[0];
+		const replacesOldWord =
+			oldWord !== undefined &&
+			NEXT_WORD_PATTERN.test(token) &&
+			leadingWhitespace(oldWord) === leadingWhitespace(token) &&
+			!containsWord(newText.slice(acceptedNew), oldWord.trim());
+		consumedOld = replacesOldWord ? prefix + oldWord.length : prefix;
+	}
+
+	return {
+		applied: {
+			startIndex: edit.startIndex + prefix,
+			endIndex: edit.startIndex + consumedOld,
+			completion: newText.slice(prefix, acceptedNew),
+		},
+		remaining: minimalReplacement(
+			edit.startIndex + acceptedNew,
+			oldText.slice(consumedOld),
+			newText.slice(acceptedNew),
+		),
+	};
+}
+
+function minimalReplacement(
+	startIndex: number,
+	oldText: string,
+	newText: string,
+): TextReplacement | null {
+	if (oldText === newText) return null;
+	const prefix = commonPrefixLength(oldText, newText);
+	let suffix = 0;
+	while (
+		suffix < Math.min(oldText.length, newText.length) - prefix &&
+		oldText[oldText.length - 1 - suffix] ===
+			newText[newText.length - 1 - suffix]
+	) {
+		suffix++;
+	}
+	return {
+		startIndex: startIndex + prefix,
+		endIndex: startIndex + oldText.length - suffix,
+		completion: newText.slice(prefix, newText.length - suffix),
+	};
+}
+
+function leadingWhitespace(text: string): string {
+	return /^\s*/.exec(text)?.[0] ?? "";
+}
+
+function containsWord(text: string, word: string): boolean {
+	return text.split(/\W+/).includes(word);
+}
+
+function commonPrefixLength(a: string, b: string): number {
+	const max = Math.min(a.length, b.length);
+	let length = 0;
+	while (length < max && a[length] === b[length]) length++;
+	return length;
+}
@@ -0,0 +1,132 @@
+import * as vscode from "vscode";
+
+import type { AutocompleteResult } from "~/api/schemas.ts";
+import type { InlineEditProvider } from "~/editor/inline-edit-provider.ts";
+import type { JumpEditManager } from "~/editor/jump-edit-manager.ts";
+import { formatRecentChangeDiff } from "~/telemetry/unified-diff.ts";
+
+interface SuggestionActions {
+	label: string;
+	accept: string;
+	dismiss: string;
+}
+
+const GHOST_TEXT_ACTIONS: SuggestionActions = {
+	label: "Sweep suggestion",
+	accept: "editor.action.inlineSuggest.commit",
+	dismiss: "editor.action.inlineSuggest.hide",
+};
+
+const JUMP_EDIT_ACTIONS: SuggestionActions = {
+	label: "Sweep jump edit",
+	accept: "sweep.acceptJumpEdit",
+	dismiss: "sweep.dismissJumpEdit",
+};
+
+const NEVER_SUGGEST_COMMAND = "sweep.neverSuggestHere";
+
+/**
+ * Explains the pending ghost text or jump edit under the pointer: its diff,
+ * confidence, model latency and the retrieval context it was produced from.
+ */
+export class SuggestionHoverProvider implements vscode.HoverProvider {
+	private inlineEditProvider: InlineEditProvider;
+	private jumpEditManager: JumpEditManager;
+
+	constructor(
+		inlineEditProvider: InlineEditProvider,
+		jumpEditManager: JumpEditManager,
+	) {
+		this.inlineEditProvider = inlineEditProvider;
+		this.jumpEditManager = jumpEditManager;
+	}
+
+	provideHover(
+		document: vscode.TextDocument,
+		position: vscode.Position,
+	): vscode.Hover | undefined {
+		const candidates: Array<[AutocompleteResult | null, SuggestionActions]> = [
+			[
+				this.inlineEditProvider.getShownInlineSuggestion(document),
+				GHOST_TEXT_ACTIONS,
+			],
+			[
+				this.jumpEditManager.getPendingJumpEditIn(document.uri.toString()),
+				JUMP_EDIT_ACTIONS,
+			],
+		];
+
+		for (const [result, actions] of candidates) {
+			if (!result) continue;
+			const startLine = document.positionAt(result.startIndex).line;
+			const endLine = document.positionAt(result.endIndex).line;
+			if (position.line < startLine || position.line > endLine) continue;
+			return new vscode.Hover(
+				this.buildMarkdown(document, result, actions),
+				new vscode.Range(
+					startLine,
+					0,
+					endLine,
+					document.lineAt(endLine).text.length,
+				),
+			);
+		}
+		return undefined;
+	}
+
+	private buildMarkdown(
+		document: vscode.TextDocument,
+		result: AutocompleteResult,
+		actions: SuggestionActions,
+	): vscode.MarkdownString {
+		const markdown = new vscode.MarkdownString();
+		markdown.isTrusted = {
+			enabledCommands: [actions.accept, actions.dismiss, NEVER_SUGGEST_COMMAND],
+		};
+
+		const details = [`confidence ${Math.round(result.confidence * 100)}%`];
+		if (result.elapsedTimeMs !== undefined) {
+			details.push(`model ${Math.round(result.elapsedTimeMs)} ms`);
+		}
+		markdown.appendMarkdown(`**${actions.label}** · ${details.join(" · ")}\n`);
+
+		const diff = formatRecentChangeDiff({
+			filepath: vscode.workspace.asRelativePath(document.uri, false),
+			previousContent: document.getText(),
+			range: new vscode.Range(
+				document.positionAt(result.startIndex),
+				document.positionAt(result.endIndex),
+			),
+			rangeOffset: result.startIndex,
+			rangeLength: result.endIndex - result.startIndex,
+			newText: result.completion,
+		});
+		if (diff) {
+			markdown.appendCodeblock(diff, "diff");
+		}
+
+		const chunks = result.retrievalChunks ?? [];
+		markdown.appendMarkdown(
+			chunks.length > 0
+				? `Context sent: ${chunks
+						.map(
+							(chunk) =>
+								`\`${chunk.filePath}:${chunk.startLine}-${chunk.endLine}\``,
+						)
+						.join(", ")}\n\n`
+				: "No retrieval context was sent.\n\n",
+		);
+
+		const neverSuggestArgs = encodeURIComponent(
+			JSON.stringify([document.uri.toString(), result.startIndex]),
+		);
+		markdown.appendMarkdown(
+			[
+				`[Accept](command:${actions.accept})`,
+				`[Dismiss](command:${actions.dismiss})`,
+				`[Never suggest here](command:${NEVER_SUGGEST_COMMAND}?${neverSuggestArgs})`,
+			].join(" · "),
+		);
+		return markdown;
+	}
+}
@@ -0,0 +1,113 @@
+import type { AutocompleteResult } from "~/api/schemas.ts";
+
+type SuggestionRange = Pick<
+	AutocompleteResult,
+	"startIndex" | "endIndex" | "completion"
+>;
+
+/** Where a suggestion sits among the alternatives for its region. */
+export interface AlternativePosition {
+	index: number;
+	count: number;
+}
+
+export function suggestionsOverlap(
+	a: SuggestionRange,
+	b: SuggestionRange,
+): boolean {
+	// Two insertions at the same offset conflict as well: their order is
+	// ambiguous.
+	if (a.startIndex === b.startIndex) return true;
+	return a.startIndex < b.endIndex && b.startIndex < a.endIndex;
+}
+
+/**
+ * Sorts suggestions by position and drops any that overlap an earlier one
+ * in the input order, so that the rest can be applied together.
+ */
+export function selectNonOverlapping<T extends SuggestionRange>(
+	suggestions: readonly T[],
+): T[] {
+	const selected: T[] = [];
+	for (const suggestion of suggestions) {
+		if (selected.some((other) => suggestionsOverlap(other, suggestion))) {
+			continue;
+		}
+		selected.push(suggestion);
+	}
+	return selected.sort((a, b) => a.startIndex - b.startIndex);
+}
+
+/**
+ * Moves suggestions to where they sit once `accepted` has been applied.
+ * Suggestions overlapping the accepted range no longer apply and are dropped.
+ */
+export function rebaseSuggestions<T extends SuggestionRange>(
+	suggestions: readonly T[],
+	accepted: SuggestionRange,
+): T[] {
+	const delta =
+		accepted.completion.length - (accepted.endIndex - accepted.startIndex);
+	return suggestions
+		.filter((suggestion) => !suggestionsOverlap(suggestion, accepted))
+		.map((suggestion) =>
+			suggestion.startIndex < accepted.startIndex
+				? suggestion
+				: {
+						...suggestion,
+						startIndex: suggestion.startIndex + delta,
+						endIndex: suggestion.endIndex + delta,
+					},
+		);
+}
+
+/**
+ * Where each of `suggestions` lands once all of them are applied in one
+ * edit. Expects sorted, non-overlapping suggestions as returned by
+ * `selectNonOverlapping`.
+ */
+export function appliedRanges(
+	suggestions: readonly SuggestionRange[],
+): Array<{ startOffset: number; endOffset: number }> {
+	let delta = 0;
+	return suggestions.map((suggestion) => {
+		const startOffset = suggestion.startIndex + delta;
+		delta +=
+			suggestion.completion.length -
+			(suggestion.endIndex - suggestion.startIndex);
+		return {
+			startOffset,
+			endOffset: startOffset + suggestion.completion.length,
+		};
+	});
+}
+
+/**
+ * Groups suggestions that edit the same region of the same document into
+ * alternatives, most confident first. Groups keep the order in which their
+ * first member appears.
+ */
+export function groupAlternatives<
+	T extends SuggestionRange &
+		Pick<AutocompleteResult, "confidence" | "targetUri">,
+>(suggestions: readonly T[]): T[][] {
+	const groups: T[][] = [];
+	for (const suggestion of suggestions) {
+		const group = groups.find((members) =>
+			members.some(
+				(member) =>
+					member.targetUri === suggestion.targetUri &&
+					suggestionsOverlap(member, suggestion),
+			),
+		);
+		if (group) {
+			group.push(suggestion);
+		} else {
+			groups.push([suggestion]);
+		}
+	}
+	// Array.prototype.sort is stable, so ties keep the response order.
+	return groups.map((group) =>
+		group.sort((a, b) => b.confidence - a.confidence),
+	);
+}
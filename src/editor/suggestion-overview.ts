@@ -0,0 +1,344 @@
+import * as vscode from "vscode";
+
+import type { AutocompleteResult } from "~/api/schemas.ts";
+import { acceptAllSuggestions } from "~/editor/accept-all.ts";
+import {
+	rebaseSuggestions,
+	selectNonOverlapping,
+} from "~/editor/suggestion-offsets.ts";
+import {
+	createHighlightedBoxDecorationMultiline,
+	type HighlightRange,
+} from "~/editor/syntax-highlight-renderer.ts";
+import {
+	type AutocompleteMetricsTracker,
+	buildMetricsPayload,
+} from "~/telemetry/autocomplete-metrics.ts";
+
+const ADDITION_HIGHLIGHT_COLOR = "rgba(90, 210, 140, 0.22)";
+const STATUS_MESSAGE_TIMEOUT_MS = 5000;
+
+function gutterIcon(color: string): vscode.Uri {
+	const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16"><rect x="6" y="0" width="4" height="16" fill="${color}"/></svg>`;
+	return vscode.Uri.parse(
+		`data:image/svg+xml;base64,${Buffer.from(svg).toString("base64")}`,
+	);
+}
+
+const ACTIVE_HUNK_DECORATION_TYPE =
+	vscode.window.createTextEditorDecorationType({
+		isWholeLine: true,
+		gutterIconPath: gutterIcon("rgb(90, 210, 140)"),
+		gutterIconSize: "contain",
+		backgroundColor: "rgba(90, 210, 140, 0.06)",
+		overviewRulerColor: "rgba(90, 210, 140, 0.9)",
+		overviewRulerLane: vscode.OverviewRulerLane.Right,
+	});
+
+const QUEUED_HUNK_DECORATION_TYPE =
+	vscode.window.createTextEditorDecorationType({
+		isWholeLine: true,
+		gutterIconPath: gutterIcon("rgba(130, 130, 130, 0.8)"),
+		gutterIconSize: "contain",
+		overviewRulerColor: "rgba(130, 130, 130, 0.8)",
+		overviewRulerLane: vscode.OverviewRulerLane.Right,
+	});
+
+const REMOVAL_DECORATION_TYPE = vscode.window.createTextEditorDecorationType({
+	backgroundColor: "rgba(255, 90, 90, 0.22)",
+});
+
+interface OverviewState {
+	document: vscode.TextDocument;
+	uri: string;
+	suggestions: AutocompleteResult[];
+	activeIndex: number;
+}
+
+/**
+ * Shows every pending suggestion for a document at once: a gutter marker on
+ * each hunk and its new text in a diff box, with one hunk active at a time.
+ */
+export class SuggestionOverview implements vscode.Disposable {
+	private state: OverviewState | null = null;
+	private applyingEdit = false;
+	private boxDecorationType = vscode.window.createTextEditorDecorationType({});
+	private statusMessage: vscode.Disposable | null = null;
+	private disposables: vscode.Disposable[] = [];
+	private metricsTracker: AutocompleteMetricsTracker;
+
+	constructor(metricsTracker: AutocompleteMetricsTracker) {
+		this.metricsTracker = metricsTracker;
+		this.disposables.push(
+			vscode.workspace.onDidChangeTextDocument((event) => {
+				if (
+					this.state &&
+					!this.applyingEdit &&
+					event.document.uri.toString() === this.state.uri &&
+					event.contentChanges.length > 0
+				) {
+					this.dismiss("document changed");
+				}
+			}),
+			vscode.window.onDidChangeActiveTextEditor(() => {
+				if (this.state) this.dismiss("active editor changed");
+			}),
+		);
+	}
+
+	get isActive(): boolean {
+		return this.state !== null;
+	}
+
+	/** Shows `suggestions` in `editor`; returns false if none can be shown. */
+	show(editor: vscode.TextEditor, suggestions: AutocompleteResult[]): boolean {
+		this.dismiss();
+		const document = editor.document;
+		const uri = document.uri.toString();
+		const hunks = selectNonOverlapping(
+			suggestions.filter(
+				(suggestion) => !suggestion.targetUri || suggestion.targetUri === uri,
+			),
+		);
+		if (hunks.length === 0) return false;
+
+		this.state = {
+			document,
+			uri,
+			suggestions: hunks,
+			activeIndex: 0,
+		};
+		for (const hunk of hunks) {
+			this.metricsTracker.trackShown(this.buildPayload(document, hunk));
+		}
+		void vscode.commands.executeCommand(
+			"setContext",
+			"sweep.hasSuggestionOverview",
+			true,
+		);
+		console.log("[Sweep] Showing suggestion overview", {
+			count: hunks.length,
+		});
+		this.render(editor, { reveal: true });
+		return true;
+	}
+
+	cycle(step: 1 | -1): void {
+		const editor = this.getEditor();
+		if (!this.state || !editor) return;
+		const count = this.state.suggestions.length;
+		this.state.activeIndex = (this.state.activeIndex + step + count) % count;
+		this.render(editor, { reveal: true });
+	}
+
+	async acceptActive(): Promise<void> {
+		const editor = this.getEditor();
+		if (!this.state || !editor) return;
+		const state = this.state;
+		const hunk = state.suggestions[state.activeIndex];
+		if (!hunk) return;
+
+		const document = editor.document;
+		const payload = this.buildPayload(document, hunk);
+		const applied = await this.applyEdit(editor, (editBuilder) => {
+			editBuilder.replace(this.rangeOf(document, hunk), hunk.completion);
+		});
+		if (!applied || this.state !== state) return;
+
+		this.metricsTracker.trackAccepted(payload, {
+			document,
+			startOffset: hunk.startIndex,
+			endOffset: hunk.startIndex + hunk.completion.length,
+		});
+		state.suggestions = rebaseSuggestions(
+			state.suggestions.filter((suggestion) => suggestion !== hunk),
+			hunk,
+		);
+		if (state.suggestions.length === 0) {
+			this.dismiss();
+			return;
+		}
+		state.activeIndex = Math.min(
+			state.activeIndex,
+			state.suggestions.length - 1,
+		);
+		this.render(editor, { reveal: true });
+	}
+
+	async acceptAll(): Promise<void> {
+		const editor = this.getEditor();
+		if (!this.state || !editor) return;
+		const state = this.state;
+		this.applyingEdit = true;
+		let accepted: number;
+		try {
+			accepted = await acceptAllSuggestions(
+				editor.document,
+				state.suggestions,
+				this.metricsTracker,
+			);
+		} finally {
+			this.applyingEdit = false;
+		}
+		if (accepted === 0 || this.state !== state) return;
+		state.suggestions = [];
+		this.dismiss();
+	}
+
+	dismiss(reason?: string): void {
+		if (!this.state) return;
+		const { document, suggestions } = this.state;
+		for (const hunk of suggestions) {
+			this.metricsTracker.trackDisposed(this.buildPayload(document, hunk));
+		}
+		this.state = null;
+		this.clearDecorations();
+		void vscode.commands.executeCommand(
+			"setContext",
+			"sweep.hasSuggestionOverview",
+			false,
+		);
+		if (reason) {
+			console.log("[Sweep] Suggestion overview dismissed:", reason);
+		}
+	}
+
+	private async applyEdit(
+		editor: vscode.TextEditor,
+		callback: (editBuilder: vscode.TextEditorEdit) => void,
+	): Promise<boolean> {
+		this.applyingEdit = true;
+		try {
+			return await editor.edit(callback, {
+				undoStopBefore: true,
+				undoStopAfter: true,
+			});
+		} finally {
+			this.applyingEdit = false;
+		}
+	}
+
+	private render(
+		editor: vscode.TextEditor,
+		options: { reveal: boolean },
+	): void {
+		if (!this.state) return;
+		const document = editor.document;
+		const { suggestions, activeIndex } = this.state;
+		const activeRanges: vscode.Range[] = [];
+		const queuedRanges: vscode.Range[] = [];
+		const removalRanges: vscode.Range[] = [];
+		const boxes: vscode.DecorationOptions[] = [];
+
+		suggestions.forEach((hunk, index) => {
+			const range = this.rangeOf(document, hunk);
+			const lineRange = new vscode.Range(
+				range.start.line,
+				0,
+				range.end.line,
+				0,
+			);
+			(index === activeIndex ? activeRanges : queuedRanges).push(lineRange);
+			if (!range.isEmpty) removalRanges.push(range);
+
+			const { lines, highlights } = this.buildPreview(document, hunk, range);
+			const lineEnd = document.lineAt(range.start.line).range.end;
+			boxes.push(
+				createHighlightedBoxDecorationMultiline(
+					lines,
+					document.languageId,
+					new vscode.Range(lineEnd, lineEnd),
+					highlights,
+				),
+			);
+		});
+
+		editor.setDecorations(ACTIVE_HUNK_DECORATION_TYPE, activeRanges);
+		editor.setDecorations(QUEUED_HUNK_DECORATION_TYPE, queuedRanges);
+		editor.setDecorations(REMOVAL_DECORATION_TYPE, removalRanges);
+		editor.setDecorations(this.boxDecorationType, boxes);
+
+		this.statusMessage?.dispose();
+		this.statusMessage = vscode.window.setStatusBarMessage(
+			`$(sweep-icon) Suggestion ${activeIndex + 1}/${suggestions.length}`,
+			STATUS_MESSAGE_TIMEOUT_MS,
+		);
+
+		const activeRange = activeRanges[0];
+		if (options.reveal && activeRange) {
+			editor.revealRange(
+				activeRange,
+				vscode.TextEditorRevealType.InCenterIfOutsideViewport,
+			);
+		}
+	}
+
+	/** The affected lines as they read after the hunk is applied. */
+	private buildPreview(
+		document: vscode.TextDocument,
+		hunk: AutocompleteResult,
+		range: vscode.Range,
+	): { lines: string[]; highlights: HighlightRange[][] } {
+		const prefix = document
+			.lineAt(range.start.line)
+			.text.slice(0, range.start.character);
+		const suffix = document
+			.lineAt(range.end.line)
+			.text.slice(range.end.character);
+		const lines = `${prefix}${hunk.completion}${suffix}`.split("\n");
+		const highlights = lines.map((line, index): HighlightRange[] => {
+			const start = index === 0 ? prefix.length : 0;
+			const end =
+				index === lines.length - 1 ? line.length - suffix.length : line.length;
+			return end > start
+				? [{ start, end, color: ADDITION_HIGHLIGHT_COLOR }]
+				: [];
+		});
+		return { lines, highlights };
+	}
+
+	private rangeOf(
+		document: vscode.TextDocument,
+		hunk: AutocompleteResult,
+	): vscode.Range {
+		return new vscode.Range(
+			document.positionAt(hunk.startIndex),
+			document.positionAt(hunk.endIndex),
+		);
+	}
+
+	private buildPayload(
+		document: vscode.TextDocument,
+		hunk: AutocompleteResult,
+	) {
+		return buildMetricsPayload(document, hunk, { suggestionType: "MULTI" });
+	}
+
+	private getEditor(): vscode.TextEditor | undefined {
+		const editor = vscode.window.activeTextEditor;
+		if (!this.state || editor?.document.uri.toString() !== this.state.uri) {
+			return undefined;
+		}
+		return editor;
+	}
+
+	private clearDecorations(): void {
+		this.statusMessage?.dispose();
+		this.statusMessage = null;
+		for (const editor of vscode.window.visibleTextEditors) {
+			editor.setDecorations(ACTIVE_HUNK_DECORATION_TYPE, []);
+			editor.setDecorations(QUEUED_HUNK_DECORATION_TYPE, []);
+			editor.setDecorations(REMOVAL_DECORATION_TYPE, []);
+			editor.setDecorations(this.boxDecorationType, []);
+		}
+	}
+
+	dispose(): void {
+		this.dismiss();
+		this.boxDecorationType.dispose();
+		for (const disposable of this.disposables) {
+			disposable.dispose();
+		}
+		this.disposables = [];
+	}
+}
@@ -0,0 +1,96 @@
+import { randomUUID } from "node:crypto";
+
+import {
+	applyContentChangeToTrackedOffsets,
+	type OffsetChange,
+	type TrackedOffsets,
+} from "~/telemetry/edit-tracking-anchor.ts";
+
+export interface SuppressionRegion {
+	id: string;
+	uri: string;
+	/** Omitted when the whole file is suppressed. */
+	offsets?: TrackedOffsets;
+	/** What the user marked, e.g. "function parse" or "whole file". */
+	label: string;
+}
+
+export interface SuppressionRegionStorage {
+	load(): SuppressionRegion[];
+	save(regions: SuppressionRegion[]): void | PromiseLike<void>;
+}
+
+/**
+ * "Never suggest here" zones, kept in step with edits so that they keep
+ * covering the same code.
+ */
+export class SuppressionRegionStore {
+	private regions: SuppressionRegion[];
+	private readonly storage: SuppressionRegionStorage;
+
+	constructor(storage: SuppressionRegionStorage) {
+		this.storage = storage;
+		this.regions = storage.load();
+	}
+
+	add(region: Omit<SuppressionRegion, "id">): SuppressionRegion {
+		const added = { ...region, id: randomUUID() };
+		this.regions.push(added);
+		void this.storage.save(this.regions);
+		return added;
+	}
+
+	remove(ids: readonly string[]): void {
+		const before = this.regions.length;
+		this.regions = this.regions.filter((region) => !ids.includes(region.id));
+		if (this.regions.length !== before) {
+			void this.storage.save(this.regions);
+		}
+	}
+
+	getRegions(uri: string): SuppressionRegion[] {
+		return this.regions.filter((region) => region.uri === uri);
+	}
+
+	/** The first region of `uri` covering any of `[start, end]`. */
+	findOverlapping(
+		uri: string,
+		start: number,
+		end = start,
+	): SuppressionRegion | undefined {
+		return this.regions.find(
+			(region) =>
+				region.uri === uri &&
+				(!region.offsets ||
+					(start <= region.offsets.endOffset &&
+						end >= region.offsets.startOffset)),
+		);
+	}
+
+	/**
+	 * Moves the regions of `uri` along with `changes`; regions whose text was
+	 * deleted entirely are dropped.
+	 */
+	applyChanges(uri: string, changes: readonly OffsetChange[]): void {
+		let changed = false;
+		this.regions = this.regions.filter((region) => {
+			if (region.uri !== uri || !region.offsets) return true;
+			const before = region.offsets;
+			let offsets = before;
+			for (const change of changes) {
+				offsets = applyContentChangeToTrackedOffsets(offsets, change);
+			}
+			if (
+				offsets.startOffset !== before.startOffset ||
+				offsets.endOffset !== before.endOffset
+			) {
+				changed = true;
+				region.offsets = offsets;
+			}
+			return offsets.endOffset > offsets.startOffset;
+		});
+		if (changed) {
+			void this.storage.save(this.regions);
+		}
+	}
+}
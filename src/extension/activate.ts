@@ -1,12 +1,24 @@
 import * as vscode from "vscode";
 
 import { ApiClient } from "~/api/client.ts";
+import { config } from "~/core/config.ts";
+import { SweepIgnore } from "~/core/sweep-ignore.ts";
+import { acceptAllSuggestions } from "~/editor/accept-all.ts";
 import { InlineEditProvider } from "~/editor/inline-edit-provider.ts";
 import { JumpEditManager } from "~/editor/jump-edit-manager.ts";
+import { SuggestionHoverProvider } from "~/editor/suggestion-hover.ts";
+import { SuggestionOverview } from "~/editor/suggestion-overview.ts";
+import {
+	type SuppressionRegion,
+	SuppressionRegionStore,
+} from "~/editor/suppression-regions.ts";
 import {
 	initSyntaxHighlighter,
 	reloadTheme,
 } from "~/editor/syntax-highlight-renderer.ts";
+import { registerHistoryView } from "~/extension/history-view.ts";
+import { registerNeverSuggestCommands } from "~/extension/never-suggest.ts";
+import { registerStatsCommand } from "~/extension/stats-panel.ts";
 import {
 	registerStatusBarCommands,
 	SweepStatusBar,
@@ -20,24 +32,43 @@ import { DocumentTracker } from "~/telemetry/document-tracker.ts";
 
 let tracker: DocumentTracker;
 let jumpEditManager: JumpEditManager;
+let suggestionOverview: SuggestionOverview;
 let provider: InlineEditProvider;
 let statusBar: SweepStatusBar;
 let metricsTracker: AutocompleteMetricsTracker;
 let localServer: LocalAutocompleteServer;
 
+const SUPPRESSION_REGIONS_KEY = "sweep.suppressionRegions";
+
 export function activate(context: vscode.ExtensionContext) {
 	initSyntaxHighlighter();
 
 	tracker = new DocumentTracker();
 	localServer = new LocalAutocompleteServer();
-	const apiClient = new ApiClient(localServer);
-	metricsTracker = new AutocompleteMetricsTracker();
+	const sweepIgnore = new SweepIgnore();
+	const apiClient = new ApiClient(localServer, sweepIgnore);
+	metricsTracker = new AutocompleteMetricsTracker(
+		apiClient,
+		context.globalState,
+	);
 	jumpEditManager = new JumpEditManager(metricsTracker);
+	suggestionOverview = new SuggestionOverview(metricsTracker);
+	const suppressionRegions = new SuppressionRegionStore({
+		load: () =>
+			context.workspaceState.get<SuppressionRegion[]>(
+				SUPPRESSION_REGIONS_KEY,
+				[],
+			),
+		save: (regions) =>
+			context.workspaceState.update(SUPPRESSION_REGIONS_KEY, regions),
+	});
 	provider = new InlineEditProvider(
 		tracker,
 		jumpEditManager,
 		apiClient,
 		metricsTracker,
+		suppressionRegions,
+		sweepIgnore,
 	);
 	const refreshTheme = () => {
 		reloadTheme();
@@ -50,6 +81,11 @@ export function activate(context: vscode.ExtensionContext) {
 			provider,
 		);
 
+	const hoverProviderDisposable = vscode.languages.registerHoverProvider(
+		{ pattern: "**/*" },
+		new SuggestionHoverProvider(provider, jumpEditManager),
+	);
+
 	const triggerCommand = vscode.commands.registerCommand(
 		"sweep.triggerNextEdit",
 		() => {
@@ -59,9 +95,54 @@ export function activate(context: vscode.ExtensionContext) {
 
 	const acceptJumpEditCommand = vscode.commands.registerCommand(
 		"sweep.acceptJumpEdit",
-		() => jumpEditManager.acceptJumpEdit(),
+		async () => {
+			if (await jumpEditManager.acceptJumpEdit()) {
+				void provider.prefetchAfterAccept();
+			}
+		},
 	);
 
+	const jumpEditPreviewCommands = [
+		vscode.commands.registerCommand("sweep.previewJumpEdit", () =>
+			jumpEditManager.previewJumpEdit(),
+		),
+		vscode.commands.registerCommand("sweep.acceptJumpEditPreview", async () => {
+			if (await jumpEditManager.acceptJumpEditPreview()) {
+				void provider.prefetchAfterAccept();
+			}
+		}),
+		vscode.commands.registerCommand("sweep.rejectJumpEditPreview", () =>
+			jumpEditManager.dismissJumpEdit(),
+		),
+	];
+
+	const alternativeCommands = [
+		vscode.commands.registerCommand("sweep.nextAlternative", () => {
+			// Without Sweep alternatives, fall back to other providers' items.
+			if (!provider.cycleAlternative(1)) {
+				void vscode.commands.executeCommand(
+					"editor.action.inlineSuggest.showNext",
+				);
+			}
+		}),
+		vscode.commands.registerCommand("sweep.previousAlternative", () => {
+			if (!provider.cycleAlternative(-1)) {
+				void vscode.commands.executeCommand(
+					"editor.action.inlineSuggest.showPrevious",
+				);
+			}
+		}),
+	];
+
+	const partialAcceptJumpEditCommands = [
+		vscode.commands.registerCommand("sweep.acceptJumpEditNextWord", () =>
+			jumpEditManager.acceptJumpEditPartially("word"),
+		),
+		vscode.commands.registerCommand("sweep.acceptJumpEditNextLine", () =>
+			jumpEditManager.acceptJumpEditPartially("line"),
+		),
+	];
+
 	const acceptInlineEditCommand = vscode.commands.registerCommand(
 		"sweep.acceptInlineEdit",
 		(
@@ -77,7 +158,19 @@ export function activate(context: vscode.ExtensionContext) {
 		) => {
 			if (!payload) return;
 			provider.handleInlineAccept(payload, acceptedSuggestion);
-			metricsTracker.trackAccepted(payload);
+			const document = vscode.window.activeTextEditor?.document;
+			metricsTracker.trackAccepted(
+				payload,
+				document && acceptedSuggestion
+					? {
+							document,
+							startOffset: acceptedSuggestion.startIndex,
+							endOffset:
+								acceptedSuggestion.startIndex +
+								acceptedSuggestion.completion.length,
+						}
+					: undefined,
+			);
 		},
 	);
 
@@ -86,12 +179,82 @@ export function activate(context: vscode.ExtensionContext) {
 		() => jumpEditManager.dismissJumpEdit(),
 	);
 
-	statusBar = new SweepStatusBar(context);
+	const showOverviewCommand = vscode.commands.registerCommand(
+		"sweep.showSuggestionOverview",
+		() => {
+			const editor = vscode.window.activeTextEditor;
+			if (!editor) return;
+			const suggestions = provider.takePendingSuggestions(editor.document);
+			if (!suggestionOverview.show(editor, suggestions)) {
+				vscode.window.showInformationMessage(
+					"No pending Sweep suggestions in this file.",
+				);
+			}
+		},
+	);
+	const overviewCommands = [
+		vscode.commands.registerCommand("sweep.acceptOverviewSuggestion", () =>
+			suggestionOverview.acceptActive(),
+		),
+		vscode.commands.registerCommand("sweep.nextOverviewSuggestion", () =>
+			suggestionOverview.cycle(1),
+		),
+		vscode.commands.registerCommand("sweep.previousOverviewSuggestion", () =>
+			suggestionOverview.cycle(-1),
+		),
+		vscode.commands.registerCommand("sweep.dismissSuggestionOverview", () =>
+			suggestionOverview.dismiss("dismissed by user"),
+		),
+	];
+
+	const acceptAllCommand = vscode.commands.registerCommand(
+		"sweep.acceptAllSuggestions",
+		async () => {
+			if (suggestionOverview.isActive) {
+				await suggestionOverview.acceptAll();
+				return;
+			}
+			const editor = vscode.window.activeTextEditor;
+			if (!editor) return;
+			const suggestions = provider.takePendingSuggestions(editor.document);
+			const accepted = await acceptAllSuggestions(
+				editor.document,
+				suggestions,
+				metricsTracker,
+			);
+			if (accepted === 0) {
+				vscode.window.showInformationMessage(
+					"No pending Sweep suggestions to accept.",
+				);
+				return;
+			}
+			void provider.prefetchAfterAccept();
+		},
+	);
+
+	statusBar = new SweepStatusBar(context, apiClient);
 	const statusBarCommands = registerStatusBarCommands(context, localServer);
+	const statsCommand = registerStatsCommand(metricsTracker);
+	const neverSuggestCommands = registerNeverSuggestCommands(suppressionRegions);
+	const historyView = registerHistoryView([
+		provider.onDidChangeSuggestionStatus,
+		jumpEditManager.onDidChangeSuggestionStatus,
+	]);
 
 	const changeListener = vscode.workspace.onDidChangeTextDocument((event) => {
+		// Undo and redo return to contents whose cached responses still apply.
+		if (
+			event.contentChanges.length > 0 &&
+			event.reason !== vscode.TextDocumentChangeReason.Undo &&
+			event.reason !== vscode.TextDocumentChangeReason.Redo
+		) {
+			apiClient.invalidateCachedResponses(event.document);
+		}
 		if (event.document === vscode.window.activeTextEditor?.document) {
 			tracker.trackChange(event);
+			if (event.contentChanges.length > 0) {
+				provider.recordTyping();
+			}
 		}
 	});
 
@@ -147,27 +310,43 @@ export function activate(context: vscode.ExtensionContext) {
 
 	context.subscriptions.push(
 		providerDisposable,
+		hoverProviderDisposable,
 		triggerCommand,
 		acceptJumpEditCommand,
+		...partialAcceptJumpEditCommands,
+		...jumpEditPreviewCommands,
+		...alternativeCommands,
 		acceptInlineEditCommand,
 		dismissJumpEditCommand,
+		...neverSuggestCommands,
+		showOverviewCommand,
+		...overviewCommands,
+		acceptAllCommand,
+		statsCommand,
+		historyView,
 		changeListener,
 		editorChangeListener,
 		selectionChangeListener,
 		themeChangeListener,
 		themeConfigListener,
 		tracker,
+		sweepIgnore,
 		jumpEditManager,
+		provider,
+		suggestionOverview,
 		metricsTracker,
 		statusBar,
+		apiClient,
 		localServer,
 		...statusBarCommands,
 	);
 
-	// Always auto-start the local server
-	localServer.ensureServerRunning().catch((error) => {
-		console.error("[Sweep] Failed to auto-start local server:", error);
-	});
+	// Auto-start the local server unless requests go elsewhere
+	if (config.backend === "local") {
+		localServer.ensureServerRunning().catch((error) => {
+			console.error("[Sweep] Failed to auto-start local server:", error);
+		});
+	}
 }
 
 export function deactivate() {}
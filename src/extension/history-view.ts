@@ -0,0 +1,186 @@
+import * as path from "node:path";
+import * as vscode from "vscode";
+
+import { JumpEditPreviewContentProvider } from "~/editor/jump-edit-preview.ts";
+import {
+	locateHistoryEntry,
+	type SuggestionHistoryEntry,
+	SuggestionHistoryStore,
+	type SuggestionStatus,
+	type SuggestionStatusEvent,
+} from "~/telemetry/suggestion-history.ts";
+import { formatRecentChangeDiff } from "~/telemetry/unified-diff.ts";
+
+const HISTORY_VIEW_ID = "sweep.history";
+const HISTORY_PREVIEW_SCHEME = "sweep-history";
+const LABEL_MAX_CHARS = 60;
+
+const STATUS_ICONS: Record<SuggestionStatus, string> = {
+	shown: "eye",
+	accepted: "check",
+	disposed: "close",
+};
+
+type HistoryNode =
+	| { kind: "file"; uri: string }
+	| { kind: "entry"; entry: SuggestionHistoryEntry };
+
+/**
+ * Lists recent suggestions per file in the `sweep.history` view, with
+ * commands to preview an entry and to re-apply one that was dismissed.
+ */
+export function registerHistoryView(
+	sources: vscode.Event<SuggestionStatusEvent>[],
+): vscode.Disposable {
+	const store = new SuggestionHistoryStore();
+	const treeChangeEmitter = new vscode.EventEmitter<void>();
+	const previewProvider = new JumpEditPreviewContentProvider(
+		HISTORY_PREVIEW_SCHEME,
+	);
+
+	const treeDataProvider: vscode.TreeDataProvider<HistoryNode> = {
+		onDidChangeTreeData: treeChangeEmitter.event,
+		getChildren: (node) => {
+			if (!node) {
+				return store.getFiles().map((uri) => ({ kind: "file", uri }));
+			}
+			if (node.kind === "file") {
+				return store
+					.getEntries(node.uri)
+					.map((entry) => ({ kind: "entry", entry }));
+			}
+			return [];
+		},
+		getTreeItem: (node) =>
+			node.kind === "file"
+				? buildFileItem(node.uri)
+				: buildEntryItem(node.entry),
+	};
+
+	return vscode.Disposable.from(
+		treeChangeEmitter,
+		previewProvider,
+		vscode.workspace.registerTextDocumentContentProvider(
+			HISTORY_PREVIEW_SCHEME,
+			previewProvider,
+		),
+		vscode.window.createTreeView(HISTORY_VIEW_ID, { treeDataProvider }),
+		...sources.map((source) =>
+			source((event) => {
+				if (store.record(event)) treeChangeEmitter.fire();
+			}),
+		),
+		vscode.commands.registerCommand(
+			"sweep.previewHistoryEntry",
+			async (entry: SuggestionHistoryEntry) => {
+				const document = await vscode.workspace.openTextDocument(
+					vscode.Uri.parse(entry.uri),
+				);
+				const location = locateHistoryEntry(document.getText(), entry);
+				if (!location) {
+					await vscode.window.showTextDocument(document);
+					vscode.window.showWarningMessage(
+						"The code around this suggestion has changed; it can no longer be previewed.",
+					);
+					return;
+				}
+				await previewProvider.openDiff(
+					document,
+					{ ...location, completion: entry.completion },
+					"Past Sweep suggestion",
+				);
+			},
+		),
+		vscode.commands.registerCommand(
+			"sweep.reapplyHistoryEntry",
+			async (node: HistoryNode | undefined) => {
+				if (node?.kind !== "entry") return;
+				const { entry } = node;
+				const uri = vscode.Uri.parse(entry.uri);
+				const document = await vscode.workspace.openTextDocument(uri);
+				const location = locateHistoryEntry(document.getText(), entry);
+				if (!location) {
+					vscode.window.showWarningMessage(
+						"The code around this suggestion has changed; it can no longer be re-applied.",
+					);
+					return;
+				}
+
+				const range = new vscode.Range(
+					document.positionAt(location.startIndex),
+					document.positionAt(location.endIndex),
+				);
+				const edit = new vscode.WorkspaceEdit();
+				edit.replace(uri, range, entry.completion);
+				if (!(await vscode.workspace.applyEdit(edit))) {
+					console.error("[Sweep] Failed to re-apply suggestion", {
+						id: entry.id,
+					});
+					return;
+				}
+				await previewProvider.closeDiffs();
+				const end = document.positionAt(
+					location.startIndex + entry.completion.length,
+				);
+				await vscode.window.showTextDocument(document, {
+					selection: new vscode.Range(end, end),
+				});
+				console.log("[Sweep] Re-applied suggestion from history", {
+					id: entry.id,
+				});
+				if (store.record({ status: "accepted", id: entry.id })) {
+					treeChangeEmitter.fire();
+				}
+			},
+		),
+	);
+}
+
+function buildFileItem(uri: string): vscode.TreeItem {
+	const resourceUri = vscode.Uri.parse(uri);
+	const item = new vscode.TreeItem(
+		resourceUri,
+		vscode.TreeItemCollapsibleState.Expanded,
+	);
+	item.description = path.dirname(
+		vscode.workspace.asRelativePath(resourceUri, false),
+	);
+	return item;
+}
+
+function buildEntryItem(entry: SuggestionHistoryEntry): vscode.TreeItem {
+	const firstLine =
+		entry.completion.split("\n").find((line) => line.trim().length > 0) ?? "";
+	const label = firstLine.trim() || "(deletion)";
+	const item = new vscode.TreeItem(
+		label.length > LABEL_MAX_CHARS
+			? `${label.slice(0, LABEL_MAX_CHARS - 1)}…`
+			: label,
+	);
+	item.id = `${entry.uri}#${entry.id}`;
+	item.description = `${entry.status} · line ${entry.startLine + 1} · ${new Date(entry.updatedAt).toLocaleTimeString()}`;
+	item.iconPath = new vscode.ThemeIcon(STATUS_ICONS[entry.status]);
+	item.contextValue = `sweep.historyEntry.${entry.status}`;
+	item.command = {
+		title: "Preview Suggestion",
+		command: "sweep.previewHistoryEntry",
+		arguments: [entry],
+	};
+
+	const diff = formatRecentChangeDiff({
+		filepath: vscode.workspace.asRelativePath(
+			vscode.Uri.parse(entry.uri),
+			false,
+		),
+		previousContent:
+			entry.contextBefore + entry.originalText + entry.contextAfter,
+		range: new vscode.Range(entry.startLine, 0, entry.startLine, 0),
+		rangeOffset: entry.contextBefore.length,
+		rangeLength: entry.originalText.length,
+		newText: entry.completion,
+	});
+	if (diff) {
+		item.tooltip = new vscode.MarkdownString().appendCodeblock(diff, "diff");
+	}
+	return item;
+}
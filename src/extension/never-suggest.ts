@@ -0,0 +1,174 @@
+import * as vscode from "vscode";
+
+import type {
+	SuppressionRegion,
+	SuppressionRegionStore,
+} from "~/editor/suppression-regions.ts";
+
+const FUNCTION_SYMBOL_KINDS = new Set([
+	vscode.SymbolKind.Function,
+	vscode.SymbolKind.Method,
+	vscode.SymbolKind.Constructor,
+]);
+
+interface RegionPickItem extends vscode.QuickPickItem {
+	region: Omit<SuppressionRegion, "id">;
+}
+
+/**
+ * Registers the commands that mark and unmark "never suggest here" zones,
+ * and keeps the zones in step with edits.
+ */
+export function registerNeverSuggestCommands(
+	store: SuppressionRegionStore,
+): vscode.Disposable[] {
+	return [
+		vscode.workspace.onDidChangeTextDocument((event) => {
+			if (event.contentChanges.length === 0) return;
+			store.applyChanges(event.document.uri.toString(), event.contentChanges);
+		}),
+		vscode.commands.registerCommand(
+			"sweep.neverSuggestHere",
+			async (uri?: string, offset?: number) => {
+				const editor = vscode.window.activeTextEditor;
+				const document = uri
+					? await vscode.workspace.openTextDocument(vscode.Uri.parse(uri))
+					: editor?.document;
+				if (!document) return;
+				const position =
+					offset !== undefined
+						? document.positionAt(offset)
+						: editor?.selection.active;
+				const items = await buildRegionPickItems(
+					document,
+					position,
+					// A selection only says where to suppress when invoked from it.
+					uri === undefined ? editor?.selection : undefined,
+				);
+				const picked = await vscode.window.showQuickPick(items, {
+					placeHolder: "Never suggest edits in…",
+				});
+				if (!picked) return;
+
+				store.add(picked.region);
+				void vscode.commands.executeCommand("editor.action.inlineSuggest.hide");
+				void vscode.commands.executeCommand("sweep.dismissJumpEdit");
+				console.log("[Sweep] Added never-suggest region", {
+					label: picked.region.label,
+				});
+				vscode.window.showInformationMessage(
+					`Sweep will no longer suggest edits in ${picked.region.label}. Run "Sweep: Allow Suggestions Here Again" to undo.`,
+				);
+			},
+		),
+		vscode.commands.registerCommand("sweep.allowSuggestionsHere", () => {
+			const editor = vscode.window.activeTextEditor;
+			if (!editor) return;
+			const uri = editor.document.uri.toString();
+			const start = editor.document.offsetAt(editor.selection.start);
+			const end = editor.document.offsetAt(editor.selection.end);
+			const removed = store
+				.getRegions(uri)
+				.filter(
+					(region) =>
+						!region.offsets ||
+						(start <= region.offsets.endOffset &&
+							end >= region.offsets.startOffset),
+				);
+			if (removed.length === 0) {
+				vscode.window.showInformationMessage(
+					"No never-suggest region covers the cursor.",
+				);
+				return;
+			}
+			store.remove(removed.map((region) => region.id));
+			vscode.window.showInformationMessage(
+				`Sweep suggestions re-enabled in ${removed.map((region) => region.label).join(", ")}.`,
+			);
+		}),
+	];
+}
+
+async function buildRegionPickItems(
+	document: vscode.TextDocument,
+	position: vscode.Position | undefined,
+	selection: vscode.Selection | undefined,
+): Promise<RegionPickItem[]> {
+	const uri = document.uri.toString();
+	const items: RegionPickItem[] = [];
+
+	const symbol = position
+		? await findEnclosingFunction(document, position)
+		: undefined;
+	if (symbol) {
+		items.push({
+			label: `$(symbol-function) Function ${symbol.name}`,
+			region: {
+				uri,
+				offsets: {
+					startOffset: document.offsetAt(symbol.range.start),
+					endOffset: document.offsetAt(symbol.range.end),
+				},
+				label: `function ${symbol.name}`,
+			},
+		});
+	}
+
+	if (selection && !selection.isEmpty) {
+		const startLine = selection.start.line;
+		const endLine = selection.end.line;
+		items.push({
+			label: "$(selection) Selected lines",
+			description: `${startLine + 1}–${endLine + 1}`,
+			region: {
+				uri,
+				offsets: {
+					startOffset: document.offsetAt(
+						document.lineAt(startLine).range.start,
+					),
+					endOffset: document.offsetAt(document.lineAt(endLine).range.end),
+				},
+				label: `lines ${startLine + 1}–${endLine + 1}`,
+			},
+		});
+	}
+
+	items.push({
+		label: "$(file) This file",
+		description: vscode.workspace.asRelativePath(document.uri, false),
+		region: {
+			uri,
+			label: vscode.workspace.asRelativePath(document.uri, false),
+		},
+	});
+	return items;
+}
+
+async function findEnclosingFunction(
+	document: vscode.TextDocument,
+	position: vscode.Position,
+): Promise<vscode.DocumentSymbol | undefined> {
+	let symbols: vscode.DocumentSymbol[] | undefined;
+	try {
+		symbols = await vscode.commands.executeCommand<vscode.DocumentSymbol[]>(
+			"vscode.executeDocumentSymbolProvider",
+			document.uri,
+		);
+	} catch (error) {
+		console.error("[Sweep] Failed to load document symbols:", error);
+		return undefined;
+	}
+
+	// Symbol providers may return SymbolInformation, which has no children.
+	let candidates = (symbols ?? []).filter((symbol) => "children" in symbol);
+	let enclosing: vscode.DocumentSymbol | undefined;
+	while (candidates.length > 0) {
+		const containing = candidates.find((symbol) =>
+			symbol.range.contains(position),
+		);
+		if (!containing) break;
+		if (FUNCTION_SYMBOL_KINDS.has(containing.kind)) enclosing = containing;
+		candidates = containing.children;
+	}
+	return enclosing;
+}
@@ -0,0 +1,114 @@
+import * as vscode from "vscode";
+
+import type {
+	AcceptanceStatsSummary,
+	OutcomeCounts,
+} from "~/telemetry/acceptance-stats.ts";
+import type { AutocompleteMetricsTracker } from "~/telemetry/autocomplete-metrics.ts";
+
+const STATS_VIEW_TYPE = "sweep.stats";
+
+let currentPanel: vscode.WebviewPanel | null = null;
+
+export function registerStatsCommand(
+	metricsTracker: AutocompleteMetricsTracker,
+): vscode.Disposable {
+	return vscode.commands.registerCommand("sweep.showStats", () => {
+		const summary = metricsTracker.getAcceptanceStats();
+		if (currentPanel) {
+			currentPanel.webview.html = renderStatsHtml(summary);
+			currentPanel.reveal();
+			return;
+		}
+
+		const panel = vscode.window.createWebviewPanel(
+			STATS_VIEW_TYPE,
+			"Sweep Statistics",
+			vscode.ViewColumn.Active,
+			{ enableScripts: false },
+		);
+		panel.webview.html = renderStatsHtml(summary);
+		panel.onDidDispose(() => {
+			currentPanel = null;
+		});
+		currentPanel = panel;
+	});
+}
+
+function renderStatsHtml(summary: AcceptanceStatsSummary): string {
+	const latency =
+		summary.medianLatencyMs === null
+			? "n/a"
+			: `${Math.round(summary.medianLatencyMs)} ms`;
+
+	return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline';">
+<title>Sweep Statistics</title>
+<style>
+	body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 0 16px; }
+	table { border-collapse: collapse; margin-bottom: 24px; min-width: 360px; }
+	th, td { text-align: left; padding: 4px 12px; border-bottom: 1px solid var(--vscode-panel-border); }
+	td.number, th.number { text-align: right; }
+	.muted { color: var(--vscode-descriptionForeground); }
+</style>
+</head>
+<body>
+<h1>Sweep Next Edit</h1>
+<p class="muted">Collected locally in this editor. Nothing on this page leaves your machine.</p>
+<h2>Overview</h2>
+${renderCountsTable("", [["All suggestions", summary.totals]])}
+<p>Median model latency: <strong>${latency}</strong></p>
+<h2>By day</h2>
+${renderCountsTable(
+	"Day",
+	[...summary.byDay].reverse().map(({ day, counts }) => [day, counts]),
+)}
+<h2>By suggestion type</h2>
+${renderCountsTable("Type", sortedEntries(summary.bySuggestionType))}
+<h2>By language</h2>
+${renderCountsTable("Language", sortedEntries(summary.byLanguage))}
+</body>
+</html>`;
+}
+
+function renderCountsTable(
+	label: string,
+	rows: Array<[string, OutcomeCounts]>,
+): string {
+	if (rows.length === 0) {
+		return '<p class="muted">No suggestions recorded yet.</p>';
+	}
+
+	const body = rows
+		.map(
+			([name, counts]) =>
+				`<tr><td>${escapeHtml(name)}</td><td class="number">${counts.shown}</td><td class="number">${counts.accepted}</td><td class="number">${counts.disposed}</td><td class="number">${formatRate(counts)}</td></tr>`,
+		)
+		.join("\n");
+	return `<table>
+<tr><th>${escapeHtml(label)}</th><th class="number">Shown</th><th class="number">Accepted</th><th class="number">Disposed</th><th class="number">Acceptance</th></tr>
+${body}
+</table>`;
+}
+
+function sortedEntries(
+	record: Record<string, OutcomeCounts>,
+): Array<[string, OutcomeCounts]> {
+	return Object.entries(record).sort((a, b) => b[1].shown - a[1].shown);
+}
+
+function formatRate(counts: OutcomeCounts): string {
+	if (counts.shown === 0) return "n/a";
+	return `${((counts.accepted / counts.shown) * 100).toFixed(1)}%`;
+}
+
+function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;");
+}
@@ -1,5 +1,7 @@
 import * as vscode from "vscode";
 
+import type { ApiClient } from "~/api/client.ts";
+import type { RequestError } from "~/api/http.ts";
 import { config } from "~/core/config";
 import type { LocalAutocompleteServer } from "~/services/local-server.ts";
 
@@ -7,7 +9,10 @@ export class SweepStatusBar implements vscode.Disposable {
 	private statusBarItem: vscode.StatusBarItem;
 	private disposables: vscode.Disposable[] = [];
 
-	constructor(_context: vscode.ExtensionContext) {
+	private lastFailure: RequestError | null;
+
+	constructor(_context: vscode.ExtensionContext, apiClient: ApiClient) {
+		this.lastFailure = apiClient.lastRequestFailure;
 		this.statusBarItem = vscode.window.createStatusBarItem(
 			vscode.StatusBarAlignment.Right,
 			100,
@@ -24,6 +29,10 @@ export class SweepStatusBar implements vscode.Disposable {
 					this.updateStatusBar();
 				}
 			}),
+			apiClient.onDidChangeRequestStatus((failure) => {
+				this.lastFailure = failure;
+				this.updateStatusBar();
+			}),
 		);
 
 		this.statusBarItem.show();
@@ -33,7 +42,9 @@ export class SweepStatusBar implements vscode.Disposable {
 		const isEnabled = config.enabled;
 		const isSnoozed = config.isAutocompleteSnoozed();
 
-		this.statusBarItem.text = "$(sweep-icon) Sweep";
+		this.statusBarItem.text = this.lastFailure
+			? "$(sweep-icon) Sweep $(warning)"
+			: "$(sweep-icon) Sweep";
 		this.statusBarItem.tooltip = this.buildTooltip(isEnabled, isSnoozed);
 
 		if (!isEnabled || isSnoozed) {
@@ -51,7 +62,10 @@ export class SweepStatusBar implements vscode.Disposable {
 		const snoozeLine = isSnoozed
 			? `Snoozed Until: ${formatSnoozeTime(snoozeUntil)}`
 			: "Snoozed: Off";
-		return `Sweep Next Edit\nStatus: ${status}\n${snoozeLine}\n\nClick to open menu`;
+		const failureLine = this.lastFailure
+			? `\nLast Request: ${describeRequestFailure(this.lastFailure)}`
+			: "";
+		return `Sweep Next Edit\nStatus: ${status}\n${snoozeLine}${failureLine}\n\nClick to open menu`;
 	}
 
 	dispose(): void {
@@ -92,6 +106,11 @@ export function registerStatusBarCommands(
 						: "Pause suggestions temporarily",
 					action: isSnoozed ? "resumeSnooze" : "snooze",
 				},
+				{
+					label: "$(graph) Show Statistics",
+					description: "Suggestions shown and accepted on this machine",
+					action: "showStats",
+				},
 				{
 					label: "$(server) Start Local Server",
 					description: "Manually start the local autocomplete server",
@@ -115,6 +134,9 @@ export function registerStatusBarCommands(
 					case "resumeSnooze":
 						await handleResumeSnooze();
 						break;
+					case "showStats":
+						await vscode.commands.executeCommand("sweep.showStats");
+						break;
 					case "startLocalServer":
 						if (localServer) {
 							try {
@@ -164,6 +186,21 @@ export function registerStatusBarCommands(
 	return disposables;
 }
 
+function describeRequestFailure(error: RequestError): string {
+	switch (error.kind) {
+		case "timeout":
+			return "Timed out";
+		case "http-status":
+			return `Server returned status ${error.status}`;
+		case "invalid-response":
+			return "Invalid response from server";
+		case "network":
+			return "Could not reach server";
+		case "aborted":
+			return "Cancelled";
+	}
+}
+
 function formatSnoozeTime(timestamp: number): string {
 	return new Date(timestamp).toLocaleString();
 }
@@ -5,6 +5,7 @@ import * as os from "node:os";
 import * as path from "node:path";
 import * as vscode from "vscode";
 
+import { keepAliveHttpAgent, type RequestError } from "~/api/http.ts";
 import { config } from "~/core/config.ts";
 
 const HEALTH_CHECK_TIMEOUT_MS = 2_000;
@@ -12,25 +13,39 @@ const SERVER_START_TIMEOUT_MS = 30_000;
 const HEALTH_POLL_INTERVAL_MS = 500;
 const MAX_CONSECUTIVE_FAILURES = 3;
 const RESTART_COOLDOWN_MS = 60_000;
+// How long a successful request vouches for the server without a health check
+const HEALTH_TRUST_WINDOW_MS = 30_000;
 
 export class LocalAutocompleteServer implements vscode.Disposable {
 	private process: child_process.ChildProcess | null = null;
 	private starting = false;
 	private consecutiveFailures = 0;
 	private lastRestartTime = 0;
+	private lastSuccessTime = 0;
 
 	async ensureServerRunning(): Promise<void> {
 		if (this.starting) return;
-		if (await this.isServerHealthy()) return;
+		if (this.isRecentlyHealthy()) return;
+		if (await this.isServerHealthy()) {
+			this.lastSuccessTime = Date.now();
+			return;
+		}
 		await this.startServer();
 	}
 
+	isRecentlyHealthy(now = Date.now()): boolean {
+		return (
+			this.consecutiveFailures === 0 &&
+			now - this.lastSuccessTime < HEALTH_TRUST_WINDOW_MS
+		);
+	}
+
 	async isServerHealthy(): Promise<boolean> {
 		const port = config.localPort;
 		return new Promise((resolve) => {
 			const req = http.get(
 				`http://localhost:${port}`,
-				{ timeout: HEALTH_CHECK_TIMEOUT_MS },
+				{ timeout: HEALTH_CHECK_TIMEOUT_MS, agent: keepAliveHttpAgent },
 				(res) => {
 					res.resume();
 					// Any response (2xx-4xx) means the server is running
@@ -78,6 +93,7 @@ export class LocalAutocompleteServer implements vscode.Disposable {
 	}
 
 	stopServer(): void {
+		this.lastSuccessTime = 0;
 		if (this.process) {
 			this.process.kill();
 			this.process = null;
@@ -86,10 +102,15 @@ export class LocalAutocompleteServer implements vscode.Disposable {
 
 	reportSuccess(): void {
 		this.consecutiveFailures = 0;
+		this.lastSuccessTime = Date.now();
 	}
 
-	reportFailure(): void {
+	reportFailure(error: RequestError): void {
 		this.consecutiveFailures++;
+		this.lastSuccessTime = 0;
+		console.log(
+			`[Sweep] Local server request failed (${error.kind}): ${error.message}`,
+		);
 		if (this.consecutiveFailures >= MAX_CONSECUTIVE_FAILURES) {
 			const now = Date.now();
 			if (now - this.lastRestartTime > RESTART_COOLDOWN_MS) {
@@ -140,6 +161,7 @@ export class LocalAutocompleteServer implements vscode.Disposable {
 		this.process.on("exit", (code) => {
 			console.log(`[Sweep] Local server exited with code ${code}`);
 			this.process = null;
+			this.lastSuccessTime = 0;
 		});
 
 		// Poll for health until ready
@@ -0,0 +1,157 @@
+import type { SuggestionType } from "~/api/schemas.ts";
+
+const MAX_RETAINED_DAYS = 30;
+const MAX_LATENCY_SAMPLES_PER_DAY = 500;
+const UNKNOWN_LANGUAGE = "unknown";
+
+export type SuggestionOutcome = "shown" | "accepted" | "disposed";
+
+export interface OutcomeCounts {
+	shown: number;
+	accepted: number;
+	disposed: number;
+}
+
+export interface DailyAcceptanceStats {
+	day: string;
+	totals: OutcomeCounts;
+	byLanguage: Record<string, OutcomeCounts>;
+	bySuggestionType: Record<string, OutcomeCounts>;
+	latenciesMs: number[];
+}
+
+export interface AcceptanceStatsEvent {
+	outcome: SuggestionOutcome;
+	suggestionType: SuggestionType;
+	languageId?: string;
+	latencyMs?: number;
+}
+
+export interface AcceptanceStatsSummary {
+	totals: OutcomeCounts;
+	byDay: Array<{ day: string; counts: OutcomeCounts }>;
+	byLanguage: Record<string, OutcomeCounts>;
+	bySuggestionType: Record<string, OutcomeCounts>;
+	medianLatencyMs: number | null;
+}
+
+export interface AcceptanceStatsStorage {
+	load(): DailyAcceptanceStats[];
+	save(days: DailyAcceptanceStats[]): void | PromiseLike<void>;
+}
+
+export class AcceptanceStatsStore {
+	private days: DailyAcceptanceStats[];
+	private readonly storage: AcceptanceStatsStorage;
+
+	constructor(storage: AcceptanceStatsStorage) {
+		this.storage = storage;
+		this.days = storage.load();
+	}
+
+	record(event: AcceptanceStatsEvent, timestamp = Date.now()): void {
+		const day = this.getOrCreateDay(formatDayKey(timestamp));
+		const language = event.languageId || UNKNOWN_LANGUAGE;
+
+		day.totals[event.outcome]++;
+		countsFor(day.byLanguage, language)[event.outcome]++;
+		countsFor(day.bySuggestionType, event.suggestionType)[event.outcome]++;
+
+		if (event.latencyMs !== undefined && event.latencyMs >= 0) {
+			day.latenciesMs.push(event.latencyMs);
+			if (day.latenciesMs.length > MAX_LATENCY_SAMPLES_PER_DAY) {
+				day.latenciesMs = day.latenciesMs.slice(-MAX_LATENCY_SAMPLES_PER_DAY);
+			}
+		}
+
+		void this.storage.save(this.days);
+	}
+
+	getSummary(): AcceptanceStatsSummary {
+		return summarizeAcceptanceStats(this.days);
+	}
+
+	private getOrCreateDay(dayKey: string): DailyAcceptanceStats {
+		const existing = this.days.find((day) => day.day === dayKey);
+		if (existing) return existing;
+
+		const created: DailyAcceptanceStats = {
+			day: dayKey,
+			totals: emptyCounts(),
+			byLanguage: {},
+			bySuggestionType: {},
+			latenciesMs: [],
+		};
+		this.days = [...this.days, created]
+			.sort((a, b) => a.day.localeCompare(b.day))
+			.slice(-MAX_RETAINED_DAYS);
+		return created;
+	}
+}
+
+export function summarizeAcceptanceStats(
+	days: readonly DailyAcceptanceStats[],
+): AcceptanceStatsSummary {
+	const totals = emptyCounts();
+	const byLanguage: Record<string, OutcomeCounts> = {};
+	const bySuggestionType: Record<string, OutcomeCounts> = {};
+	const latencies: number[] = [];
+
+	for (const day of days) {
+		addCounts(totals, day.totals);
+		for (const [language, counts] of Object.entries(day.byLanguage)) {
+			addCounts(countsFor(byLanguage, language), counts);
+		}
+		for (const [type, counts] of Object.entries(day.bySuggestionType)) {
+			addCounts(countsFor(bySuggestionType, type), counts);
+		}
+		latencies.push(...day.latenciesMs);
+	}
+
+	return {
+		totals,
+		byDay: days.map((day) => ({ day: day.day, counts: { ...day.totals } })),
+		byLanguage,
+		bySuggestionType,
+		medianLatencyMs: median(latencies),
+	};
+}
+
+export function median(values: readonly number[]): number | null {
+	if (values.length === 0) return null;
+	const sorted = [...values].sort((a, b) => a - b);
+	const middle = Math.floor(sorted.length / 2);
+	if (sorted.length % 2 === 1) return sorted[middle] ?? null;
+	const lower = sorted[middle - 1];
+	const upper = sorted[middle];
+	if (lower === undefined || upper === undefined) return null;
+	return (lower + upper) / 2;
+}
+
+function formatDayKey(timestamp: number): string {
+	const date = new Date(timestamp);
+	const month = String(date.getMonth() + 1).padStart(2, "0");
+	const day = String(date.getDate()).padStart(2, "0");
+	return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function emptyCounts(): OutcomeCounts {
+	return { shown: 0, accepted: 0, disposed: 0 };
+}
+
+function countsFor(
+	record: Record<string, OutcomeCounts>,
+	key: string,
+): OutcomeCounts {
+	const existing = record[key];
+	if (existing) return existing;
+	const created = emptyCounts();
+	record[key] = created;
+	return created;
+}
+
+function addCounts(target: OutcomeCounts, source: OutcomeCounts): void {
+	target.shown += source.shown;
+	target.accepted += source.accepted;
+	target.disposed += source.disposed;
+}
@@ -0,0 +1,167 @@
+import * as vscode from "vscode";
+
+import type { FileChunk } from "~/api/schemas.ts";
+import type { AutocompleteMetricsPayload } from "~/telemetry/autocomplete-metrics.ts";
+import {
+	applyContentChangeToTrackedOffsets,
+	type TrackedOffsets,
+} from "~/telemetry/edit-tracking-anchor.ts";
+import { toUnixPath } from "~/utils/path.ts";
+
+export const EDIT_TRACKING_INTERVALS_SECONDS = [15, 30, 60, 120, 300] as const;
+const MAX_TRACKED_EDITS = 20;
+
+export type EditTrackingInterval =
+	(typeof EDIT_TRACKING_INTERVALS_SECONDS)[number];
+
+export interface EditTrackingSnapshot {
+	intervalSeconds: EditTrackingInterval;
+	content: string;
+	line: FileChunk;
+}
+
+interface TrackedAcceptedEdit {
+	uri: string;
+	offsets: TrackedOffsets;
+	payload: AutocompleteMetricsPayload;
+	timers: ReturnType<typeof setTimeout>[];
+}
+
+/**
+ * Follows the region of an accepted suggestion through later edits and
+ * snapshots its contents at each of the edit tracking intervals.
+ */
+export class AcceptedEditTracker implements vscode.Disposable {
+	private trackedEdits: TrackedAcceptedEdit[] = [];
+	private disposables: vscode.Disposable[] = [];
+	private onSnapshot: (
+		payload: AutocompleteMetricsPayload,
+		snapshot: EditTrackingSnapshot,
+	) => void;
+
+	constructor(
+		onSnapshot: (
+			payload: AutocompleteMetricsPayload,
+			snapshot: EditTrackingSnapshot,
+		) => void,
+	) {
+		this.onSnapshot = onSnapshot;
+		this.disposables.push(
+			vscode.workspace.onDidChangeTextDocument((event) => {
+				this.handleDocumentChange(event);
+			}),
+			vscode.workspace.onDidCloseTextDocument((document) => {
+				this.stopTrackingDocument(document.uri.toString());
+			}),
+		);
+	}
+
+	track(
+		document: vscode.TextDocument,
+		offsets: TrackedOffsets,
+		payload: AutocompleteMetricsPayload,
+	): void {
+		const trackedEdit: TrackedAcceptedEdit = {
+			uri: document.uri.toString(),
+			offsets,
+			payload,
+			timers: [],
+		};
+		trackedEdit.timers = EDIT_TRACKING_INTERVALS_SECONDS.map((interval) =>
+			setTimeout(() => {
+				this.emitSnapshot(trackedEdit, interval);
+			}, interval * 1000),
+		);
+		this.trackedEdits.push(trackedEdit);
+
+		while (this.trackedEdits.length > MAX_TRACKED_EDITS) {
+			const oldest = this.trackedEdits.shift();
+			if (oldest) this.stopTracking(oldest);
+		}
+	}
+
+	private handleDocumentChange(event: vscode.TextDocumentChangeEvent): void {
+		const uri = event.document.uri.toString();
+		for (const trackedEdit of this.trackedEdits) {
+			if (trackedEdit.uri !== uri) continue;
+			for (const change of event.contentChanges) {
+				trackedEdit.offsets = applyContentChangeToTrackedOffsets(
+					trackedEdit.offsets,
+					change,
+				);
+			}
+		}
+	}
+
+	private emitSnapshot(
+		trackedEdit: TrackedAcceptedEdit,
+		intervalSeconds: EditTrackingInterval,
+	): void {
+		const document = vscode.workspace.textDocuments.find(
+			(doc) => doc.uri.toString() === trackedEdit.uri,
+		);
+		if (!document) {
+			this.stopTracking(trackedEdit);
+			return;
+		}
+
+		const range = new vscode.Range(
+			document.positionAt(trackedEdit.offsets.startOffset),
+			document.positionAt(trackedEdit.offsets.endOffset),
+		);
+		// A region ending in a newline ends at the start of the next line,
+		// which it does not otherwise touch.
+		const endLine =
+			range.end.character === 0 && range.end.line > range.start.line
+				? range.end.line - 1
+				: range.end.line;
+		const lineRange = new vscode.Range(
+			document.lineAt(range.start.line).range.start,
+			document.lineAt(endLine).range.end,
+		);
+		this.onSnapshot(trackedEdit.payload, {
+			intervalSeconds,
+			content: document.getText(range),
+			line: {
+				file_path: toUnixPath(document.uri.fsPath) || trackedEdit.uri,
+				start_line: range.start.line + 1,
+				end_line: endLine + 1,
+				content: document.getText(lineRange),
+				timestamp: Date.now(),
+			},
+		});
+
+		const lastInterval = EDIT_TRACKING_INTERVALS_SECONDS.at(-1);
+		if (intervalSeconds === lastInterval) {
+			this.stopTracking(trackedEdit);
+		}
+	}
+
+	private stopTrackingDocument(uri: string): void {
+		for (const trackedEdit of [...this.trackedEdits]) {
+			if (trackedEdit.uri === uri) this.stopTracking(trackedEdit);
+		}
+	}
+
+	private stopTracking(trackedEdit: TrackedAcceptedEdit): void {
+		for (const timer of trackedEdit.timers) {
+			clearTimeout(timer);
+		}
+		this.trackedEdits = this.trackedEdits.filter(
+			(edit) => edit !== trackedEdit,
+		);
+	}
+
+	dispose(): void {
+		for (const trackedEdit of this.trackedEdits) {
+			for (const timer of trackedEdit.timers) {
+				clearTimeout(timer);
+			}
+		}
+		this.trackedEdits = [];
+		for (const disposable of this.disposables) {
+			disposable.dispose();
+		}
+		this.disposables = [];
+	}
+}
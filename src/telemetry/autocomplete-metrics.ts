@@ -1,6 +1,36 @@
 import * as vscode from "vscode";
 
-import type { AutocompleteResult, SuggestionType } from "~/api/schemas.ts";
+import type { ApiClient } from "~/api/client.ts";
+import {
+	type AutocompleteEventType,
+	type AutocompleteMetricsRequest,
+	AutocompleteMetricsRequestSchema,
+	type AutocompleteResult,
+	type SuggestionType,
+} from "~/api/schemas.ts";
+import { SecretRedactor } from "~/api/secret-redaction.ts";
+import {
+	AcceptanceStatsStore,
+	type AcceptanceStatsSummary,
+	type DailyAcceptanceStats,
+	type SuggestionOutcome,
+} from "~/telemetry/acceptance-stats.ts";
+import {
+	AcceptedEditTracker,
+	type EditTrackingSnapshot,
+} from "~/telemetry/accepted-edit-tracker.ts";
+import { MetricsEventQueue } from "~/telemetry/metrics-queue.ts";
+
+const METRICS_BACKLOG_STORAGE_KEY = "sweep.metricsBacklog";
+const ACCEPTANCE_STATS_STORAGE_KEY = "sweep.acceptanceStats";
+const METRICS_FLUSH_DELAY_MS = 5_000;
+const METRICS_RETRY_BASE_DELAY_MS = 10_000;
+const METRICS_RETRY_MAX_DELAY_MS = 5 * 60_000;
+// Enough to cover every suggestion a cached response can bring back.
+const MAX_REPORTED_SHOWN_IDS = 500;
+// Suggestions superseded without being accepted or disposed are never
+// resolved, so the oldest are forgotten past this many.
+const MAX_UNRESOLVED_SHOWN = 200;
 
 export interface AutocompleteMetricsPayload {
 	id: string;
@@ -9,22 +39,210 @@ export interface AutocompleteMetricsPayload {
 	suggestionType: SuggestionType;
 	numDefinitionsRetrieved?: number;
 	numUsagesRetrieved?: number;
+	languageId?: string;
+	elapsedTimeMs?: number;
+}
+
+export interface AcceptedRegion {
+	document: vscode.TextDocument;
+	startOffset: number;
+	endOffset: number;
 }
 
 export class AutocompleteMetricsTracker implements vscode.Disposable {
-	private shownIds = new Set<string>();
+	private shownTimestamps = new Map<string, number>();
+	/** Ids already reported as shown, oldest first. */
+	private reportedShownIds = new Set<string>();
+	private api: ApiClient;
+	private queue: MetricsEventQueue;
+	private flushTimer: ReturnType<typeof setTimeout> | null = null;
+	private consecutiveFailures = 0;
+	private acceptedEditTracker: AcceptedEditTracker;
+	private statsStore: AcceptanceStatsStore;
+
+	constructor(api: ApiClient, storage: vscode.Memento) {
+		this.api = api;
+		this.queue = new MetricsEventQueue({
+			send: (event) => this.api.trackAutocompleteMetrics(event),
+			storage: {
+				load: () =>
+					storage.get<AutocompleteMetricsRequest[]>(
+						METRICS_BACKLOG_STORAGE_KEY,
+						[],
+					),
+				save: (events) => storage.update(METRICS_BACKLOG_STORAGE_KEY, events),
+			},
+		});
+		this.statsStore = new AcceptanceStatsStore({
+			load: () =>
+				storage.get<DailyAcceptanceStats[]>(ACCEPTANCE_STATS_STORAGE_KEY, []),
+			save: (days) => storage.update(ACCEPTANCE_STATS_STORAGE_KEY, days),
+		});
+		this.acceptedEditTracker = new AcceptedEditTracker((payload, snapshot) => {
+			this.trackEditTracking(payload, snapshot);
+		});
+		if (this.queue.size > 0) {
+			this.scheduleFlush(METRICS_FLUSH_DELAY_MS);
+		}
+	}
 
 	dispose(): void {
-		this.shownIds.clear();
+		this.acceptedEditTracker.dispose();
+		if (this.flushTimer) {
+			clearTimeout(this.flushTimer);
+			this.flushTimer = null;
+		}
+		this.shownTimestamps.clear();
+		this.reportedShownIds.clear();
 	}
 
 	trackShown(payload: AutocompleteMetricsPayload): void {
-		this.shownIds.add(payload.id);
+		// Cached responses bring back suggestions under their original ids,
+		// which were reported the first time they were shown.
+		if (this.reportedShownIds.has(payload.id)) return;
+		this.reportedShownIds.add(payload.id);
+		while (this.reportedShownIds.size > MAX_REPORTED_SHOWN_IDS) {
+			const oldest = this.reportedShownIds.values().next().value;
+			if (oldest === undefined) break;
+			this.reportedShownIds.delete(oldest);
+		}
+		this.shownTimestamps.set(payload.id, Date.now());
+		while (this.shownTimestamps.size > MAX_UNRESOLVED_SHOWN) {
+			const oldest = this.shownTimestamps.keys().next().value;
+			if (oldest === undefined) break;
+			this.shownTimestamps.delete(oldest);
+		}
+		this.enqueue("autocomplete_suggestion_shown", payload);
+		this.recordStats("shown", payload);
+	}
+
+	trackAccepted(
+		payload: AutocompleteMetricsPayload,
+		acceptedRegion?: AcceptedRegion,
+	): void {
+		const lifespan = this.consumeLifespan(payload.id);
+		this.enqueue("autocomplete_suggestion_accepted", payload, { lifespan });
+		this.recordStats("accepted", payload);
+		if (acceptedRegion) {
+			this.acceptedEditTracker.track(
+				acceptedRegion.document,
+				{
+					startOffset: acceptedRegion.startOffset,
+					endOffset: acceptedRegion.endOffset,
+				},
+				payload,
+			);
+		}
+	}
+
+	trackDisposed(payload: AutocompleteMetricsPayload): void {
+		// Only suggestions that were shown and not yet resolved can be disposed.
+		if (!this.shownTimestamps.has(payload.id)) return;
+		const lifespan = this.consumeLifespan(payload.id);
+		this.enqueue("autocomplete_suggestion_disposed", payload, { lifespan });
+		this.recordStats("disposed", payload);
 	}
 
-	trackAccepted(_payload: AutocompleteMetricsPayload): void {}
+	getAcceptanceStats(): AcceptanceStatsSummary {
+		return this.statsStore.getSummary();
+	}
+
+	private recordStats(
+		outcome: SuggestionOutcome,
+		payload: AutocompleteMetricsPayload,
+	): void {
+		this.statsStore.record({
+			outcome,
+			suggestionType: payload.suggestionType,
+			...(payload.languageId !== undefined
+				? { languageId: payload.languageId }
+				: {}),
+			// Model latency is attributed once per suggestion, when it is shown.
+			...(outcome === "shown" && payload.elapsedTimeMs !== undefined
+				? { latencyMs: payload.elapsedTimeMs }
+				: {}),
+		});
+	}
 
-	trackDisposed(_payload: AutocompleteMetricsPayload): void {}
+	private trackEditTracking(
+		payload: AutocompleteMetricsPayload,
+		snapshot: EditTrackingSnapshot,
+	): void {
+		// Snapshots carry whatever the user has since typed into the region.
+		const redactor = new SecretRedactor();
+		const content = redactor.redact(snapshot.content).text;
+		this.enqueue("autocomplete_edit_tracking", payload, {
+			edit_tracking: content,
+			[`edit_tracking_${snapshot.intervalSeconds}`]: content,
+			edit_tracking_line: {
+				...snapshot.line,
+				content: redactor.redact(snapshot.line.content).text,
+			},
+		});
+	}
+
+	private consumeLifespan(id: string): number | undefined {
+		const shownAt = this.shownTimestamps.get(id);
+		this.shownTimestamps.delete(id);
+		return shownAt === undefined ? undefined : Date.now() - shownAt;
+	}
+
+	private enqueue(
+		eventType: AutocompleteEventType,
+		payload: AutocompleteMetricsPayload,
+		fields: Partial<AutocompleteMetricsRequest> = {},
+	): void {
+		const parsed = AutocompleteMetricsRequestSchema.safeParse({
+			event_type: eventType,
+			suggestion_type: payload.suggestionType,
+			additions: payload.additions,
+			deletions: payload.deletions,
+			autocomplete_id: payload.id,
+			debug_info: this.api.getDebugInfo(),
+			device_id: vscode.env.machineId,
+			num_definitions_retrieved: payload.numDefinitionsRetrieved,
+			num_usages_retrieved: payload.numUsagesRetrieved,
+			...fields,
+		});
+		if (!parsed.success) {
+			console.error(
+				"[Sweep] Invalid autocomplete metrics event:",
+				parsed.error.message,
+			);
+			return;
+		}
+
+		this.queue.enqueue(parsed.data);
+		if (this.consecutiveFailures === 0) {
+			this.scheduleFlush(METRICS_FLUSH_DELAY_MS);
+		}
+	}
+
+	private scheduleFlush(delay: number): void {
+		if (this.flushTimer) return;
+		this.flushTimer = setTimeout(() => {
+			this.flushTimer = null;
+			void this.flush();
+		}, delay);
+	}
+
+	private async flush(): Promise<void> {
+		const result = await this.queue.flush();
+		if (result.failed) {
+			this.consecutiveFailures++;
+			const delay = Math.min(
+				METRICS_RETRY_BASE_DELAY_MS * 2 ** (this.consecutiveFailures - 1),
+				METRICS_RETRY_MAX_DELAY_MS,
+			);
+			this.scheduleFlush(delay);
+			return;
+		}
+
+		this.consecutiveFailures = 0;
+		if (result.remaining > 0) {
+			this.scheduleFlush(METRICS_FLUSH_DELAY_MS);
+		}
+	}
 }
 
 export function buildMetricsPayload(
@@ -38,6 +256,16 @@ export function buildMetricsPayload(
 		additions,
 		deletions,
 		suggestionType: options?.suggestionType ?? "GHOST_TEXT",
+		languageId: document.languageId,
+		...(result.numDefinitionsRetrieved !== undefined
+			? { numDefinitionsRetrieved: result.numDefinitionsRetrieved }
+			: {}),
+		...(result.numUsagesRetrieved !== undefined
+			? { numUsagesRetrieved: result.numUsagesRetrieved }
+			: {}),
+		...(result.elapsedTimeMs !== undefined
+			? { elapsedTimeMs: result.elapsedTimeMs }
+			: {}),
 	};
 }
 
@@ -24,12 +24,14 @@ interface ChangeSummary {
 }
 
 export interface EditRecord {
+	uri: string;
 	filepath: string;
 	diff: string;
 	timestamp: number;
 }
 
 export interface ContextFile {
+	uri: string;
 	filepath: string;
 	content: string;
 	mtime?: number;
@@ -118,7 +120,7 @@ export class DocumentTracker implements vscode.Disposable {
 						change.rangeLength,
 					);
 			if (diff) {
-				this.editHistory.push({ filepath, diff, timestamp: now });
+				this.editHistory.push({ uri, filepath, diff, timestamp: now });
 				this.pruneEditHistory();
 			}
 
@@ -255,6 +257,7 @@ export class DocumentTracker implements vscode.Disposable {
 			.map(([, snapshot]) => {
 				const cursor = this.cursorPositions.get(snapshot.uri);
 				return {
+					uri: snapshot.uri,
 					filepath: this.getRelativePath(snapshot.uri),
 					content: snapshot.content,
 					...(snapshot.mtime !== undefined ? { mtime: snapshot.mtime } : {}),
@@ -0,0 +1,91 @@
+import type { AutocompleteMetricsRequest } from "~/api/schemas.ts";
+
+const DEFAULT_MAX_BATCH_SIZE = 20;
+const DEFAULT_MAX_QUEUE_SIZE = 500;
+
+export interface MetricsQueueStorage {
+	load(): AutocompleteMetricsRequest[];
+	save(events: AutocompleteMetricsRequest[]): void | PromiseLike<void>;
+}
+
+export interface MetricsEventQueueOptions {
+	send: (event: AutocompleteMetricsRequest) => Promise<void>;
+	storage: MetricsQueueStorage;
+	maxBatchSize?: number;
+	maxQueueSize?: number;
+}
+
+export interface MetricsFlushResult {
+	sent: number;
+	remaining: number;
+	failed: boolean;
+}
+
+export class MetricsEventQueue {
+	private events: AutocompleteMetricsRequest[];
+	private flushing: Promise<MetricsFlushResult> | null = null;
+	private readonly send: MetricsEventQueueOptions["send"];
+	private readonly storage: MetricsQueueStorage;
+	private readonly maxBatchSize: number;
+	private readonly maxQueueSize: number;
+
+	constructor(options: MetricsEventQueueOptions) {
+		this.send = options.send;
+		this.storage = options.storage;
+		this.maxBatchSize = options.maxBatchSize ?? DEFAULT_MAX_BATCH_SIZE;
+		this.maxQueueSize = options.maxQueueSize ?? DEFAULT_MAX_QUEUE_SIZE;
+		this.events = this.trimToCapacity(this.storage.load());
+	}
+
+	get size(): number {
+		return this.events.length;
+	}
+
+	enqueue(event: AutocompleteMetricsRequest): void {
+		this.events = this.trimToCapacity([...this.events, event]);
+		void this.storage.save(this.events);
+	}
+
+	flush(): Promise<MetricsFlushResult> {
+		if (!this.flushing) {
+			this.flushing = this.flushBatch().finally(() => {
+				this.flushing = null;
+			});
+		}
+		return this.flushing;
+	}
+
+	private async flushBatch(): Promise<MetricsFlushResult> {
+		const batch = this.events.slice(0, this.maxBatchSize);
+		let sent = 0;
+		let failed = false;
+
+		for (const event of batch) {
+			try {
+				await this.send(event);
+				sent++;
+			} catch (error) {
+				console.log("[Sweep] Failed to send autocomplete metrics:", error);
+				failed = true;
+				break;
+			}
+		}
+
+		if (sent > 0) {
+			// Events may have been enqueued while the batch was in flight, so only
+			// drop the ones that were actually delivered.
+			const delivered = new Set(batch.slice(0, sent));
+			this.events = this.events.filter((event) => !delivered.has(event));
+			await this.storage.save(this.events);
+		}
+
+		return { sent, remaining: this.events.length, failed };
+	}
+
+	private trimToCapacity(
+		events: AutocompleteMetricsRequest[],
+	): AutocompleteMetricsRequest[] {
+		if (events.length <= this.maxQueueSize) return events;
+		return events.slice(-this.maxQueueSize);
+	}
+}
@@ -0,0 +1,148 @@
+import type { AutocompleteResult } from "~/api/schemas.ts";
+
+const DEFAULT_MAX_ENTRIES_PER_FILE = 20;
+const DEFAULT_MAX_FILES = 50;
+// Text kept on each side of a suggestion to find it again after edits.
+const CONTEXT_CHARS = 200;
+
+export type SuggestionStatus = "shown" | "accepted" | "disposed";
+
+export type SuggestionStatusEvent =
+	| {
+			status: "shown";
+			uri: string;
+			/** Text of `uri` the suggestion's offsets index into. */
+			documentText: string;
+			result: AutocompleteResult;
+	  }
+	| { status: "accepted" | "disposed"; id: string };
+
+export interface SuggestionHistoryEntry {
+	id: string;
+	uri: string;
+	status: SuggestionStatus;
+	shownAt: number;
+	updatedAt: number;
+	/** Zero-based line the suggestion started on when it was shown. */
+	startLine: number;
+	startIndex: number;
+	endIndex: number;
+	completion: string;
+	originalText: string;
+	contextBefore: string;
+	contextAfter: string;
+}
+
+/** Keeps the most recent suggestions of each file, newest first. */
+export class SuggestionHistoryStore {
+	private entriesByUri = new Map<string, SuggestionHistoryEntry[]>();
+	private maxEntriesPerFile: number;
+	private maxFiles: number;
+
+	constructor(options: { maxEntriesPerFile?: number; maxFiles?: number } = {}) {
+		this.maxEntriesPerFile =
+			options.maxEntriesPerFile ?? DEFAULT_MAX_ENTRIES_PER_FILE;
+		this.maxFiles = options.maxFiles ?? DEFAULT_MAX_FILES;
+	}
+
+	/** Applies `event`; returns whether the history changed. */
+	record(event: SuggestionStatusEvent, now = Date.now()): boolean {
+		if (event.status !== "shown") {
+			const entry = this.find(event.id);
+			if (!entry || entry.status === event.status) return false;
+			entry.status = event.status;
+			entry.updatedAt = now;
+			return true;
+		}
+
+		const { uri, documentText, result } = event;
+		const entries = (this.entriesByUri.get(uri) ?? []).filter(
+			(entry) => entry.id !== result.id,
+		);
+		entries.unshift({
+			id: result.id,
+			uri,
+			status: "shown",
+			shownAt: now,
+			updatedAt: now,
+			startLine: countLines(documentText.slice(0, result.startIndex)),
+			startIndex: result.startIndex,
+			endIndex: result.endIndex,
+			completion: result.completion,
+			originalText: documentText.slice(result.startIndex, result.endIndex),
+			contextBefore: documentText.slice(
+				Math.max(0, result.startIndex - CONTEXT_CHARS),
+				result.startIndex,
+			),
+			contextAfter: documentText.slice(
+				result.endIndex,
+				result.endIndex + CONTEXT_CHARS,
+			),
+		});
+		// Re-inserting moves the file to the end, i.e. most recent.
+		this.entriesByUri.delete(uri);
+		this.entriesByUri.set(uri, entries.slice(0, this.maxEntriesPerFile));
+		for (const staleUri of this.entriesByUri.keys()) {
+			if (this.entriesByUri.size <= this.maxFiles) break;
+			this.entriesByUri.delete(staleUri);
+		}
+		return true;
+	}
+
+	/** Files with history, most recently suggested first. */
+	getFiles(): string[] {
+		return [...this.entriesByUri.keys()].reverse();
+	}
+
+	getEntries(uri: string): readonly SuggestionHistoryEntry[] {
+		return this.entriesByUri.get(uri) ?? [];
+	}
+
+	find(id: string): SuggestionHistoryEntry | undefined {
+		for (const entries of this.entriesByUri.values()) {
+			const entry = entries.find((candidate) => candidate.id === id);
+			if (entry) return entry;
+		}
+		return undefined;
+	}
+}
+
+/**
+ * Finds where `entry` applies in `documentText`: at its original offsets if
+ * the text there is unchanged, otherwise wherever its surrounding text
+ * appears exactly once. Returns null when the surroundings no longer match.
+ */
+export function locateHistoryEntry(
+	documentText: string,
+	entry: SuggestionHistoryEntry,
+): { startIndex: number; endIndex: number } | null {
+	const { contextBefore, originalText, contextAfter } = entry;
+	const window = contextBefore + originalText + contextAfter;
+	const originalWindowStart = entry.startIndex - contextBefore.length;
+	if (
+		documentText.slice(
+			originalWindowStart,
+			originalWindowStart + window.length,
+		) === window
+	) {
+		return { startIndex: entry.startIndex, endIndex: entry.endIndex };
+	}
+
+	const windowStart = documentText.indexOf(window);
+	if (
+		windowStart === -1 ||
+		documentText.indexOf(window, windowStart + 1) !== -1
+	) {
+		return null;
+	}
+	const startIndex = windowStart + contextBefore.length;
+	return { startIndex, endIndex: startIndex + originalText.length };
+}
+
+function countLines(text: string): number {
+	let lines = 0;
+	for (const char of text) {
+		if (char === "\n") lines++;
+	}
+	return lines;
+}
@@ -0,0 +1,145 @@
+export interface IgnoreRule {
+	negated: boolean;
+	directoryOnly: boolean;
+	/** Matches "/"-separated paths relative to the ignore file's directory. */
+	regex: RegExp;
+}
+
+/** Parses the lines of a gitignore-style file, skipping blanks and comments. */
+export function parseIgnoreRules(content: string): IgnoreRule[] {
+	const rules: IgnoreRule[] = [];
+	for (const line of content.split(/\r?\n/)) {
+		const rule = parseIgnoreLine(line);
+		if (rule) rules.push(rule);
+	}
+	return rules;
+}
+
+function parseIgnoreLine(rawLine: string): IgnoreRule | null {
+	// Trailing spaces are dropped unless escaped with a backslash.
+	let pattern = rawLine.replace(/(?<!\\) +$/, "");
+	if (!pattern || pattern.startsWith("#")) return null;
+
+	const negated = pattern.startsWith("!");
+	if (negated) pattern = pattern.slice(1);
+	const directoryOnly = pattern.endsWith("/");
+	if (directoryOnly) pattern = pattern.slice(0, -1);
+	if (!pattern) return null;
+
+	// A slash anywhere but the end anchors the pattern to the file's directory.
+	const anchored = pattern.includes("/");
+	if (pattern.startsWith("/")) pattern = pattern.slice(1);
+	const body = globToRegexSource(pattern);
+	return {
+		negated,
+		directoryOnly,
+		regex: new RegExp(anchored ? `^${body}$` : `^(?:.*/)?${body}$`),
+	};
+}
+
+function globToRegexSource(glob: string): string {
+	let source = "";
+	for (let i = 0; i < glob.length; i++) {
+		const char = glob.charAt(i);
+		if (char === "*") {
+			const isDoubleStar = glob.charAt(i + 1) === "*";
+			const startsSegment = i === 0 || glob.charAt(i - 1) === "/";
+			const endsSegment = i + 2 === glob.length || glob.charAt(i + 2) === "/";
+			if (isDoubleStar && startsSegment && endsSegment) {
+				if (i + 2 === glob.length) {
+					source += ".*";
+					i += 1;
+				} else {
+					// "**/" also matches no directories at all.
+					source += "(?:.*/)?";
+					i += 2;
+				}
+				continue;
+			}
+			while (glob.charAt(i + 1) === "*") i++;
+			source += "[^/]*";
+		} else if (char === "?") {
+			source += "[^/]";
+		} else if (char === "[") {
+			// A "]" right after the opening bracket is part of the class.
+			const close = glob.indexOf("]", i + 2);
+			if (close === -1) {
+				source += "\\[";
+				continue;
+			}
+			const members = glob.slice(i + 1, close);
+			source += members.startsWith("!")
+				? `[^${members.slice(1)}]`
+				: `[${members}]`;
+			i = close;
+		} else if (char === "\\" && i + 1 < glob.length) {
+			i++;
+			source += escapeRegex(glob.charAt(i));
+		} else {
+			source += escapeRegex(char);
+		}
+	}
+	return source;
+}
+
+function escapeRegex(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Evaluates the ignore files of one root with git's precedence: deeper
+ * files override shallower ones, later rules override earlier ones, and
+ * nothing inside an ignored directory can be re-included.
+ */
+export class IgnoreMatcher {
+	private rulesByBase = new Map<string, IgnoreRule[]>();
+	private defaultRules: IgnoreRule[];
+
+	/** `defaultRules` apply at the root, before any ignore file. */
+	constructor(defaultRules: IgnoreRule[] = []) {
+		this.defaultRules = defaultRules;
+	}
+
+	setDefaultRules(rules: IgnoreRule[]): void {
+		this.defaultRules = rules;
+	}
+
+	/** `base` is the ignore file's directory relative to the root, "" for the root. */
+	setRules(base: string, rules: IgnoreRule[]): void {
+		this.rulesByBase.set(base, rules);
+	}
+
+	deleteRules(base: string): void {
+		this.rulesByBase.delete(base);
+	}
+
+	/** `relativePath` is "/"-separated and relative to the root. */
+	isIgnored(relativePath: string): boolean {
+		const segments = relativePath.split("/").filter(Boolean);
+		for (let i = 1; i <= segments.length; i++) {
+			const isDirectory = i < segments.length;
+			if (this.matches(segments.slice(0, i).join("/"), isDirectory)) {
+				return true;
+			}
+		}
+		return false;
+	}
+
+	private matches(path: string, isDirectory: boolean): boolean {
+		const applicable = [...this.rulesByBase.entries()]
+			.filter(([base]) => base === "" || path.startsWith(`${base}/`))
+			.sort(([a], [b]) => a.length - b.length);
+		let ignored = false;
+		for (const [base, rules] of [
+			["", this.defaultRules] as const,
+			...applicable,
+		]) {
+			const relative = base === "" ? path : path.slice(base.length + 1);
+			for (const rule of rules) {
+				if (rule.directoryOnly && !isDirectory) continue;
+				if (rule.regex.test(relative)) ignored = !rule.negated;
+			}
+		}
+		return ignored;
+	}
+}
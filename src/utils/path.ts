@@ -1,3 +1,13 @@
 export function toUnixPath(path: string): string {
 	return path.replace(/\\/g, "/");
 }
+
+/**
+ * Whether `path` names the file at `absolutePath`, either whole or relative
+ * to one of the directories above it.
+ */
+export function pathRefersTo(path: string, absolutePath: string): boolean {
+	const relativePath = toUnixPath(path).replace(/^(\.\/)+/, "");
+	const targetPath = toUnixPath(absolutePath);
+	return targetPath === relativePath || targetPath.endsWith(`/${relativePath}`);
+}
@@ -0,0 +1,102 @@
+import { describe, expect, test } from "bun:test";
+
+import {
+	AcceptanceStatsStore,
+	type DailyAcceptanceStats,
+	median,
+} from "~/telemetry/acceptance-stats.ts";
+
+function memoryStorage() {
+	const state: { days: DailyAcceptanceStats[] } = { days: [] };
+	return {
+		state,
+		storage: {
+			load: () => state.days,
+			save: (days: DailyAcceptanceStats[]) => {
+				state.days = days;
+			},
+		},
+	};
+}
+
+describe("AcceptanceStatsStore", () => {
+	test("aggregates outcomes per day, language and suggestion type", () => {
+		const { storage } = memoryStorage();
+		const store = new AcceptanceStatsStore(storage);
+		const dayOne = new Date(2026, 0, 5, 12).getTime();
+		const dayTwo = new Date(2026, 0, 6, 12).getTime();
+
+		store.record(
+			{
+				outcome: "shown",
+				suggestionType: "GHOST_TEXT",
+				languageId: "typescript",
+				latencyMs: 100,
+			},
+			dayOne,
+		);
+		store.record(
+			{
+				outcome: "accepted",
+				suggestionType: "GHOST_TEXT",
+				languageId: "typescript",
+			},
+			dayOne,
+		);
+		store.record(
+			{
+				outcome: "shown",
+				suggestionType: "JUMP_TO_EDIT",
+				languageId: "python",
+				latencyMs: 300,
+			},
+			dayTwo,
+		);
+		store.record(
+			{ outcome: "disposed", suggestionType: "JUMP_TO_EDIT" },
+			dayTwo,
+		);
+
+		const summary = store.getSummary();
+
+		expect(summary.totals).toEqual({ shown: 2, accepted: 1, disposed: 1 });
+		expect(summary.byDay).toEqual([
+			{ day: "2026-01-05", counts: { shown: 1, accepted: 1, disposed: 0 } },
+			{ day: "2026-01-06", counts: { shown: 1, accepted: 0, disposed: 1 } },
+		]);
+		expect(summary.byLanguage).toEqual({
+			typescript: { shown: 1, accepted: 1, disposed: 0 },
+			python: { shown: 1, accepted: 0, disposed: 0 },
+			unknown: { shown: 0, accepted: 0, disposed: 1 },
+		});
+		expect(summary.bySuggestionType).toEqual({
+			GHOST_TEXT: { shown: 1, accepted: 1, disposed: 0 },
+			JUMP_TO_EDIT: { shown: 1, accepted: 0, disposed: 1 },
+		});
+		expect(summary.medianLatencyMs).toBe(200);
+	});
+
+	test("restores previously persisted days", () => {
+		const { state, storage } = memoryStorage();
+		const timestamp = new Date(2026, 2, 1, 9).getTime();
+		new AcceptanceStatsStore(storage).record(
+			{ outcome: "shown", suggestionType: "GHOST_TEXT" },
+			timestamp,
+		);
+
+		const restored = new AcceptanceStatsStore({
+			load: () => state.days,
+			save: () => {},
+		});
+
+		expect(restored.getSummary().totals.shown).toBe(1);
+	});
+});
+
+describe("median", () => {
+	test("returns null for no samples and the middle value otherwise", () => {
+		expect(median([])).toBeNull();
+		expect(median([5, 1, 3])).toBe(3);
+		expect(median([4, 1, 3, 2])).toBe(2.5);
+	});
+});
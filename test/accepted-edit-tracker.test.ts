@@ -0,0 +1,118 @@
+import {
+	afterEach,
+	beforeEach,
+	describe,
+	expect,
+	jest,
+	mock,
+	test,
+} from "bun:test";
+
+import type { AutocompleteMetricsPayload } from "~/telemetry/autocomplete-metrics.ts";
+import { createFakeVscode, FakeTextDocument } from "./fake-vscode.ts";
+
+const vscode = createFakeVscode();
+mock.module("vscode", () => vscode.module);
+
+const { AcceptedEditTracker } = await import(
+	"~/telemetry/accepted-edit-tracker.ts"
+);
+
+const PAYLOAD: AutocompleteMetricsPayload = {
+	id: "suggestion-1",
+	additions: 1,
+	deletions: 1,
+	suggestionType: "GHOST_TEXT",
+};
+
+function setUp(text: string) {
+	const document = new FakeTextDocument("/repo/src/example.ts", text);
+	vscode.textDocuments.splice(0, vscode.textDocuments.length, document);
+	const snapshots: {
+		intervalSeconds: number;
+		content: string;
+		line: unknown;
+	}[] = [];
+	const tracker = new AcceptedEditTracker((_payload, snapshot) => {
+		snapshots.push(snapshot);
+	});
+	return { document, snapshots, tracker };
+}
+
+describe("AcceptedEditTracker", () => {
+	beforeEach(() => {
+		jest.useFakeTimers();
+	});
+
+	afterEach(() => {
+		jest.useRealTimers();
+	});
+
+	test("snapshots the region at each tracking interval", () => {
+		const { document, snapshots, tracker } = setUp(
+			"const a = 1;\nconst b = 2;",
+		);
+		tracker.track(document as never, { startOffset: 6, endOffset: 7 }, PAYLOAD);
+
+		jest.advanceTimersByTime(14_999);
+		expect(snapshots).toHaveLength(0);
+
+		jest.advanceTimersByTime(300_000);
+		expect(snapshots.map((snapshot) => snapshot.intervalSeconds)).toEqual([
+			15, 30, 60, 120, 300,
+		]);
+		expect(snapshots[0]?.content).toBe("a");
+		tracker.dispose();
+	});
+
+	test("follows the region through later edits", () => {
+		const { document, snapshots, tracker } = setUp(
+			"const a = 1;\nconst b = 2;",
+		);
+		tracker.track(document as never, { startOffset: 6, endOffset: 7 }, PAYLOAD);
+
+		const change = document.replace(0, 0, "// header\n");
+		vscode.didChangeTextDocument.fire({ document, contentChanges: [change] });
+		jest.advanceTimersByTime(15_000);
+
+		expect(snapshots[0]?.content).toBe("a");
+		expect(snapshots[0]?.line).toMatchObject({
+			start_line: 2,
+			end_line: 2,
+			content: "const a = 1;",
+		});
+		tracker.dispose();
+	});
+
+	test("does not count the line after a completion ending in a newline", () => {
+		const { document, snapshots, tracker } = setUp(
+			"const a = 1;\nconst b = 2;\nconst c = 3;",
+		);
+		tracker.track(
+			document as never,
+			{ startOffset: 0, endOffset: 13 },
+			PAYLOAD,
+		);
+
+		jest.advanceTimersByTime(15_000);
+
+		expect(snapshots[0]?.content).toBe("const a = 1;\n");
+		expect(snapshots[0]?.line).toMatchObject({
+			start_line: 1,
+			end_line: 1,
+			content: "const a = 1;",
+		});
+		tracker.dispose();
+	});
+
+	test("stops tracking when the document closes", () => {
+		const { document, snapshots, tracker } = setUp("const a = 1;");
+		tracker.track(document as never, { startOffset: 6, endOffset: 7 }, PAYLOAD);
+
+		vscode.didCloseTextDocument.fire(document);
+		jest.advanceTimersByTime(300_000);
+
+		expect(snapshots).toHaveLength(0);
+		tracker.dispose();
+	});
+});
@@ -0,0 +1,81 @@
+import { describe, expect, test } from "bun:test";
+
+import { AdaptiveDebounce } from "~/editor/adaptive-debounce.ts";
+
+/**
+ * Types a keystroke every `intervalMs`, deciding right after each one as the
+ * editor does, and returns the time of the last keystroke.
+ */
+function typeAt(
+	debounce: AdaptiveDebounce,
+	intervalMs: number,
+	count: number,
+	start = 1_000,
+) {
+	let time = start;
+	for (let i = 0; i < count; i++) {
+		debounce.recordKeystroke(time);
+		debounce.decide(time);
+		time += intervalMs;
+	}
+	return time - intervalMs;
+}
+
+function keystrokeThenDecide(debounce: AdaptiveDebounce, time: number) {
+	debounce.recordKeystroke(time);
+	return debounce.decide(time);
+}
+
+describe("AdaptiveDebounce", () => {
+	test("fires the first request straight away", () => {
+		expect(keystrokeThenDecide(new AdaptiveDebounce(), 1_000).delayMs).toBe(0);
+	});
+
+	test("spaces requests at least 300ms apart", () => {
+		const debounce = new AdaptiveDebounce();
+		const lastKeystroke = typeAt(debounce, 100, 10);
+
+		const decision = keystrokeThenDecide(debounce, lastKeystroke + 100);
+		expect(decision.inBurst).toBe(false);
+		expect(decision.delayMs).toBe(200);
+	});
+
+	test("does not hold back a slow typist", () => {
+		const debounce = new AdaptiveDebounce();
+		const lastKeystroke = typeAt(debounce, 800, 10);
+
+		const decision = keystrokeThenDecide(debounce, lastKeystroke + 800);
+		expect(decision.typingIntervalMs).toBe(800);
+		expect(decision.delayMs).toBe(0);
+	});
+
+	test("waits out a burst faster than the usual rhythm", () => {
+		const debounce = new AdaptiveDebounce();
+		const lastKeystroke = typeAt(debounce, 300, 10);
+
+		const decision = keystrokeThenDecide(debounce, lastKeystroke + 150);
+		expect(decision.inBurst).toBe(true);
+		expect(decision.typingIntervalMs).toBe(255);
+		expect(decision.delayMs).toBe(383);
+	});
+
+	test("waits longer in a burst when requests are slow", () => {
+		const fast = new AdaptiveDebounce();
+		const slow = new AdaptiveDebounce();
+		const lastKeystroke = typeAt(fast, 300, 10);
+		typeAt(slow, 300, 10);
+		fast.recordLatency(100);
+		slow.recordLatency(800);
+
+		expect(
+			keystrokeThenDecide(slow, lastKeystroke + 150).delayMs,
+		).toBeGreaterThan(keystrokeThenDecide(fast, lastKeystroke + 150).delayMs);
+	});
+
+	test("ignores long gaps when learning the typing interval", () => {
+		const debounce = new AdaptiveDebounce();
+		debounce.recordKeystroke(0);
+
+		expect(keystrokeThenDecide(debounce, 5_000).typingIntervalMs).toBeNull();
+	});
+});
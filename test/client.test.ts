@@ -0,0 +1,285 @@
+import {
+	afterAll,
+	beforeAll,
+	beforeEach,
+	describe,
+	expect,
+	mock,
+	test,
+} from "bun:test";
+import * as http from "node:http";
+import type { AddressInfo } from "node:net";
+
+import type { AutocompleteRequest } from "~/api/schemas.ts";
+import {
+	createFakeVscode,
+	FakeTextDocument,
+	FakeUri,
+	Location,
+	Position,
+	Range,
+} from "./fake-vscode.ts";
+
+const vscode = createFakeVscode();
+mock.module("vscode", () => vscode.module);
+
+const { ApiClient } = await import("~/api/client.ts");
+
+const LIBRARY_TEXT = Array.from(
+	{ length: 60 },
+	(_, index) => `export const value${index} = ${index};`,
+).join("\n");
+
+let server: http.Server;
+let serverUrl: string;
+let lastRequest: AutocompleteRequest | null = null;
+let lastPath: string | null = null;
+let responseDelayMs = 0;
+let responseFilePath: string | null = null;
+
+beforeAll(async () => {
+	server = http.createServer((req, res) => {
+		let body = "";
+		req.on("data", (chunk: Buffer) => {
+			body += chunk.toString();
+		});
+		req.on("end", () => {
+			lastPath = req.url ?? null;
+			lastRequest = JSON.parse(body) as AutocompleteRequest;
+			const response =
+				req.url === "/v1/completions"
+					? { choices: [{ text: "", finish_reason: "stop" }] }
+					: {
+							autocomplete_id: "suggestion-1",
+							start_index: 0,
+							end_index: 0,
+							completion: "// hi\n",
+							confidence: 0.9,
+							...(responseFilePath !== null
+								? { file_path: responseFilePath }
+								: {}),
+						};
+			setTimeout(() => {
+				if (res.destroyed) return;
+				res.writeHead(200, { "Content-Type": "application/json" });
+				res.end(JSON.stringify(response));
+			}, responseDelayMs);
+		});
+	});
+	await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+	serverUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => {
+	server.closeAllConnections();
+	server.close();
+});
+
+beforeEach(() => {
+	lastRequest = null;
+	lastPath = null;
+	responseDelayMs = 0;
+	responseFilePath = null;
+	vscode.settings.clear();
+	vscode.clipboard.text = "copied text";
+	const library = FakeUri.file("/repo/src/library.ts");
+	vscode.commandResults.set("vscode.executeDefinitionProvider", [
+		new Location(library, new Range(10, 0, 10, 12)),
+	]);
+	vscode.commandResults.set("vscode.executeReferenceProvider", [
+		new Location(library, new Range(12, 0, 12, 12)),
+		new Location(library, new Range(30, 0, 30, 12)),
+	]);
+});
+
+async function requestAutocomplete(
+	signal?: AbortSignal,
+	otherDocuments: FakeTextDocument[] = [],
+) {
+	const document = new FakeTextDocument(
+		"/repo/src/main.ts",
+		"import { value10 } from './library';\n",
+	);
+	vscode.textDocuments.splice(
+		0,
+		vscode.textDocuments.length,
+		document,
+		new FakeTextDocument("/repo/src/library.ts", LIBRARY_TEXT),
+		...otherDocuments,
+	);
+	const outcomes: string[] = [];
+	const localServer = {
+		ensureServerRunning: async () => {},
+		getServerUrl: () => serverUrl,
+		reportSuccess: () => outcomes.push("success"),
+		reportFailure: () => outcomes.push("failure"),
+	};
+	const client = new ApiClient(
+		localServer as never,
+		{
+			isIgnored: () => false,
+		} as never,
+	);
+	const results = await client.getAutocomplete(
+		{
+			document: document as never,
+			position: new Position(0, 0) as never,
+			originalContent: document.text,
+			recentChanges: [],
+			recentBuffers: [],
+			diagnostics: [],
+			userActions: [],
+		},
+		signal,
+	);
+	client.dispose();
+	return {
+		request: lastRequest,
+		path: lastPath,
+		result: results?.[0],
+		outcomes,
+	};
+}
+
+function retrievalPaths(request: AutocompleteRequest | null): string[] {
+	return request?.retrieval_chunks.map((chunk) => chunk.file_path) ?? [];
+}
+
+describe("ApiClient context sources", () => {
+	test("sends the clipboard only while it is enabled", async () => {
+		const enabled = await requestAutocomplete();
+		expect(retrievalPaths(enabled.request)).toContain("clipboard.txt");
+
+		vscode.settings.set("context.clipboard", false);
+		const disabled = await requestAutocomplete();
+		expect(retrievalPaths(disabled.request)).not.toContain("clipboard.txt");
+		expect(retrievalPaths(disabled.request)).toContain("/repo/src/library.ts");
+	});
+
+	test("counts definitions and usages that were sent, once fused", async () => {
+		const { request, result } = await requestAutocomplete();
+
+		expect(
+			request?.retrieval_chunks.filter(
+				(chunk) => chunk.file_path === "/repo/src/library.ts",
+			),
+		).toHaveLength(1);
+		expect(result?.numDefinitionsRetrieved).toBe(1);
+		expect(result?.numUsagesRetrieved).toBe(2);
+	});
+
+	test("limits and disables usages per their settings", async () => {
+		vscode.settings.set("context.maxUsages", 1);
+		const limited = await requestAutocomplete();
+		expect(limited.result?.numUsagesRetrieved).toBe(1);
+
+		vscode.settings.set("context.usages", false);
+		const disabled = await requestAutocomplete();
+		expect(disabled.result?.numUsagesRetrieved).toBe(0);
+		expect(disabled.result?.numDefinitionsRetrieved).toBe(1);
+	});
+
+	test("leaves out chunks that the token budget trims away", async () => {
+		vscode.settings.set("context.clipboard", false);
+		vscode.settings.set("contextTokenBudget", 120);
+		const { request, result } = await requestAutocomplete();
+
+		const library = request?.retrieval_chunks[0];
+		expect(library?.end_line).toBeLessThan(22);
+		expect(result?.numDefinitionsRetrieved).toBe(1);
+		expect(result?.numUsagesRetrieved).toBe(1);
+	});
+});
+
+describe("ApiClient backends", () => {
+	test("streams from the local server by default", async () => {
+		const { request, path, result, outcomes } = await requestAutocomplete();
+
+		expect(path).toBe("/backend/next_edit_autocomplete");
+		expect(request).toMatchObject({
+			file_path: "/repo/src/main.ts",
+			stream: true,
+		});
+		expect(result?.completion).toBe("// hi\n");
+		expect(outcomes).toEqual(["success"]);
+	});
+
+	test("sends the same request to a remote server at the backend URL", async () => {
+		vscode.settings.set("backend", "remote");
+		vscode.settings.set("backendUrl", `${serverUrl}/`);
+		const { request, path, result, outcomes } = await requestAutocomplete();
+
+		expect(path).toBe("/backend/next_edit_autocomplete");
+		expect(request).toMatchObject({
+			file_path: "/repo/src/main.ts",
+			stream: true,
+		});
+		expect(result?.completion).toBe("// hi\n");
+		expect(outcomes).toEqual([]);
+	});
+
+	test("prompts a completions server with the next-edit format", async () => {
+		vscode.settings.set("backend", "completions");
+		vscode.settings.set("backendUrl", serverUrl);
+		vscode.settings.set("completionsModel", "test-model");
+		const { request, path } = await requestAutocomplete();
+
+		expect(path).toBe("/v1/completions");
+		const body = request as unknown as { model: string; prompt: string };
+		expect(body.model).toBe("test-model");
+		expect(body.prompt).toContain("import { value10 } from './library';");
+	});
+
+	test("sends nothing to a remote backend without a URL", async () => {
+		vscode.settings.set("backend", "remote");
+		const { path, result } = await requestAutocomplete();
+
+		expect(path).toBeNull();
+		expect(result).toBeUndefined();
+	});
+
+	test("does not count an aborted request as a local server failure", async () => {
+		responseDelayMs = 200;
+		const controller = new AbortController();
+		const pending = requestAutocomplete(controller.signal);
+		setTimeout(() => controller.abort("superseded"), 50);
+		const { result, outcomes } = await pending;
+
+		expect(result).toBeUndefined();
+		expect(outcomes).toEqual([]);
+	});
+});
+
+describe("ApiClient edits to other files", () => {
+	const sharedBasename = () => [
+		new FakeTextDocument("/repo/src/a/index.ts", "export const a = 1;\n"),
+		new FakeTextDocument("/repo/src/b/index.ts", "export const b = 2;\n"),
+	];
+
+	test("drops an edit whose path fits two open files", async () => {
+		responseFilePath = "index.ts";
+
+		const { result } = await requestAutocomplete(undefined, sharedBasename());
+
+		expect(result).toBeUndefined();
+	});
+
+	test("resolves a path that names exactly one open file", async () => {
+		for (const filePath of ["/repo/src/b/index.ts", "b/index.ts"]) {
+			responseFilePath = filePath;
+
+			const { result } = await requestAutocomplete(undefined, sharedBasename());
+
+			expect(result?.targetUri).toBe("file:///repo/src/b/index.ts");
+		}
+	});
+
+	test("treats a path to the requesting file as a same-file edit", async () => {
+		responseFilePath = "src/main.ts";
+
+		const { result } = await requestAutocomplete();
+
+		expect(result?.completion).toBe("// hi\n");
+		expect(result?.targetUri).toBeUndefined();
+	});
+});
@@ -0,0 +1,127 @@
+import { describe, expect, test } from "bun:test";
+
+import { estimateTokens, packContext } from "~/api/context-packer.ts";
+import type { FileChunk } from "~/api/schemas.ts";
+
+function chunk(filePath: string, lines: number, lineLength = 36): FileChunk {
+	const content = Array.from({ length: lines }, (_, index) =>
+		`${index}`.padEnd(lineLength, "x"),
+	).join("\n");
+	return {
+		file_path: filePath,
+		start_line: 1,
+		end_line: lines,
+		content,
+		timestamp: 1,
+	};
+}
+
+function change(path: string, tokens: number) {
+	return { path, diff: "d".repeat(tokens * 4) };
+}
+
+describe("estimateTokens", () => {
+	test("rounds up to whole tokens", () => {
+		expect(estimateTokens("")).toBe(0);
+		expect(estimateTokens("abcde")).toBe(2);
+	});
+});
+
+describe("packContext", () => {
+	test("keeps everything when it fits", () => {
+		const input = {
+			budgetTokens: 10_000,
+			currentFileContents: "const a = 1;",
+			fileChunks: [chunk("a.ts", 5)],
+			retrievalChunks: [chunk("b.ts", 5), chunk("c.ts", 5)],
+			recentChanges: [change("d.ts", 10)],
+		};
+
+		const packed = packContext(input);
+
+		expect(packed.fileChunks).toEqual(input.fileChunks);
+		expect(packed.retrievalChunks).toEqual(input.retrievalChunks);
+		expect(packed.recentChanges).toEqual(input.recentChanges);
+	});
+
+	test("counts the current file first and never exceeds the budget", () => {
+		const packed = packContext({
+			budgetTokens: 500,
+			currentFileContents: "x".repeat(4 * 360),
+			fileChunks: [chunk("a.ts", 40)],
+			retrievalChunks: [],
+			recentChanges: [change("c.ts", 200), change("d.ts", 20)],
+		});
+
+		expect(packed.usedTokens).toBeLessThanOrEqual(500);
+		expect(packed.recentChanges.map((entry) => entry.path)).toEqual(["d.ts"]);
+		expect(packed.fileChunks[0]?.end_line).toBeLessThan(40);
+	});
+
+	test("keeps room for other context when the current file is oversized", () => {
+		const packed = packContext({
+			budgetTokens: 6000,
+			currentFileContents: "x".repeat(4 * 10_000),
+			fileChunks: [chunk("a.ts", 10)],
+			retrievalChunks: [chunk("b.ts", 10)],
+			recentChanges: [change("c.ts", 100)],
+		});
+
+		expect(packed.recentChanges.map((entry) => entry.path)).toEqual(["c.ts"]);
+		expect(packed.retrievalChunks.map((entry) => entry.file_path)).toEqual([
+			"b.ts",
+		]);
+		expect(packed.fileChunks.map((entry) => entry.file_path)).toEqual(["a.ts"]);
+		expect(packed.usedTokens - 10_000).toBeLessThanOrEqual(1500);
+	});
+
+	test("prefers recent changes, then the most relevant retrieval chunks", () => {
+		const packed = packContext({
+			budgetTokens: 260,
+			currentFileContents: "",
+			fileChunks: [chunk("recent.ts", 10)],
+			retrievalChunks: [chunk("diagnostics", 10), chunk("definition.ts", 10)],
+			recentChanges: [change("edited.ts", 100)],
+		});
+
+		expect(packed.recentChanges).toHaveLength(1);
+		expect(packed.retrievalChunks.map((entry) => entry.file_path)).toEqual([
+			"definition.ts",
+		]);
+		expect(packed.fileChunks).toEqual([]);
+	});
+
+	test("trims the chunk that does not fit to its leading lines", () => {
+		const packed = packContext({
+			budgetTokens: 100,
+			currentFileContents: "",
+			fileChunks: [],
+			retrievalChunks: [chunk("big.ts", 40)],
+			recentChanges: [],
+		});
+
+		const trimmed = packed.retrievalChunks[0];
+		expect(trimmed?.content.split("\n").length).toBe(10);
+		expect(trimmed?.end_line).toBe(10);
+		expect(packed.usedTokens).toBeLessThanOrEqual(100);
+	});
+
+	test("keeps each kind in its original order", () => {
+		const packed = packContext({
+			budgetTokens: 10_000,
+			currentFileContents: "",
+			fileChunks: [chunk("first.ts", 2), chunk("second.ts", 2)],
+			retrievalChunks: [chunk("low.ts", 2), chunk("high.ts", 2)],
+			recentChanges: [],
+		});
+
+		expect(packed.fileChunks.map((entry) => entry.file_path)).toEqual([
+			"first.ts",
+			"second.ts",
+		]);
+		expect(packed.retrievalChunks.map((entry) => entry.file_path)).toEqual([
+			"low.ts",
+			"high.ts",
+		]);
+	});
+});
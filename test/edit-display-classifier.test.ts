@@ -87,4 +87,55 @@ describe("classifyEditDisplay", () => {
 			reason: "single-newline-boundary",
 		});
 	});
+
+	test("returns SUPPRESS for low-confidence edits far from cursor", () => {
+		const result = classifyEditDisplay({
+			cursorLine: 20,
+			editStartLine: 5,
+			editEndLine: 6,
+			cursorOffset: 500,
+			startIndex: 120,
+			completion: "x",
+			isOnSingleNewlineBoundary: false,
+			confidence: 0.1,
+		});
+
+		expect(result).toEqual({
+			decision: "SUPPRESS",
+			reason: "low-confidence-far-from-cursor",
+		});
+	});
+
+	test("returns JUMP for mid-confidence edits off the cursor line", () => {
+		const result = classifyEditDisplay({
+			cursorLine: 10,
+			editStartLine: 11,
+			editEndLine: 11,
+			cursorOffset: 200,
+			startIndex: 230,
+			completion: "suffix",
+			isOnSingleNewlineBoundary: false,
+			confidence: 0.45,
+		});
+
+		expect(result).toEqual({
+			decision: "JUMP",
+			reason: "mid-confidence-off-cursor-line",
+		});
+	});
+
+	test("keeps mid-confidence at-cursor suggestions inline", () => {
+		const result = classifyEditDisplay({
+			cursorLine: 10,
+			editStartLine: 10,
+			editEndLine: 10,
+			cursorOffset: 200,
+			startIndex: 200,
+			completion: "suffix",
+			isOnSingleNewlineBoundary: false,
+			confidence: 0.45,
+		});
+
+		expect(result.decision).toBe("INLINE");
+	});
 });
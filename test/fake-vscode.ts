@@ -0,0 +1,267 @@
+/**
+ * The slice of the `vscode` API that editor-facing modules touch, for
+ * tests that load them through `mock.module("vscode", ...)`.
+ */
+
+type Listener<T> = (event: T) => void;
+
+export class FakeEventEmitter<T> {
+	private listeners: Listener<T>[] = [];
+
+	readonly event = (listener: Listener<T>) => {
+		this.listeners.push(listener);
+		return {
+			dispose: () => {
+				this.listeners = this.listeners.filter((other) => other !== listener);
+			},
+		};
+	};
+
+	fire(event: T): void {
+		for (const listener of [...this.listeners]) listener(event);
+	}
+
+	dispose(): void {
+		this.listeners = [];
+	}
+}
+
+export class Position {
+	constructor(
+		readonly line: number,
+		readonly character: number,
+	) {}
+
+	isBefore(other: Position): boolean {
+		return (
+			this.line < other.line ||
+			(this.line === other.line && this.character < other.character)
+		);
+	}
+}
+
+export class Range {
+	readonly start: Position;
+	readonly end: Position;
+
+	constructor(start: Position, end: Position);
+	constructor(
+		startLine: number,
+		startCharacter: number,
+		endLine: number,
+		endCharacter: number,
+	);
+	constructor(
+		a: Position | number,
+		b: Position | number,
+		c?: number,
+		d?: number,
+	) {
+		if (typeof a === "number" && typeof b === "number") {
+			this.start = new Position(a, b);
+			this.end = new Position(c ?? a, d ?? b);
+		} else {
+			this.start = a as Position;
+			this.end = b as Position;
+		}
+	}
+
+	contains(position: Position): boolean {
+		return !position.isBefore(this.start) && !this.end.isBefore(position);
+	}
+}
+
+export class MarkdownString {
+	value = "";
+	isTrusted: boolean | { enabledCommands: string[] } = false;
+
+	appendMarkdown(value: string): this {
+		this.value += value;
+		return this;
+	}
+
+	appendCodeblock(code: string, language = ""): this {
+		this.value += `\n\`\`\`${language}\n${code}\n\`\`\`\n`;
+		return this;
+	}
+}
+
+export class Hover {
+	constructor(
+		readonly contents: MarkdownString,
+		readonly range?: Range,
+	) {}
+}
+
+export class InlineCompletionItem {
+	command?: { title: string; command: string; arguments?: unknown[] };
+
+	constructor(
+		readonly insertText: string,
+		readonly range?: Range,
+	) {}
+}
+
+export class FakeUri {
+	constructor(
+		readonly scheme: string,
+		readonly fsPath: string,
+	) {}
+
+	static file(fsPath: string): FakeUri {
+		return new FakeUri("file", fsPath);
+	}
+
+	static parse(value: string): FakeUri {
+		return new FakeUri("file", value.replace(/^file:\/\//, ""));
+	}
+
+	toString(): string {
+		return `${this.scheme}://${this.fsPath}`;
+	}
+}
+
+export class Location {
+	constructor(
+		readonly uri: FakeUri,
+		readonly range: Range,
+	) {}
+}
+
+export class FakeTextDocument {
+	readonly uri: FakeUri;
+	readonly languageId = "typescript";
+	version = 1;
+	text: string;
+
+	constructor(fsPath: string, text: string) {
+		this.uri = FakeUri.file(fsPath);
+		this.text = text;
+	}
+
+	get lineCount(): number {
+		return this.text.split("\n").length;
+	}
+
+	getText(range?: Range): string {
+		if (!range) return this.text;
+		return this.text.slice(
+			this.offsetAt(range.start),
+			this.offsetAt(range.end),
+		);
+	}
+
+	offsetAt(position: Position): number {
+		const lines = this.text.split("\n");
+		let offset = 0;
+		for (let line = 0; line < position.line && line < lines.length; line++) {
+			offset += (lines[line]?.length ?? 0) + 1;
+		}
+		return offset + position.character;
+	}
+
+	positionAt(offset: number): Position {
+		const before = this.text.slice(0, offset).split("\n");
+		return new Position(before.length - 1, before.at(-1)?.length ?? 0);
+	}
+
+	lineAt(line: number): { text: string; range: Range } {
+		const text = this.text.split("\n")[line] ?? "";
+		return {
+			text,
+			range: new Range(new Position(line, 0), new Position(line, text.length)),
+		};
+	}
+
+	/** Applies an edit and returns the change VS Code would report for it. */
+	replace(start: number, end: number, text: string) {
+		const change = {
+			range: new Range(this.positionAt(start), this.positionAt(end)),
+			rangeOffset: start,
+			rangeLength: end - start,
+			text,
+		};
+		this.text = this.text.slice(0, start) + text + this.text.slice(end);
+		this.version++;
+		return change;
+	}
+}
+
+export function createFakeVscode() {
+	const didChangeTextDocument = new FakeEventEmitter<unknown>();
+	const didCloseTextDocument = new FakeEventEmitter<unknown>();
+	const textDocuments: FakeTextDocument[] = [];
+	/** `sweep.*` settings by key, without the section. */
+	const settings = new Map<string, unknown>();
+	const clipboard = { text: "" };
+	/** What `commands.executeCommand` resolves with, by command. */
+	const commandResults = new Map<string, unknown>();
+	/** Every command run through `commands.executeCommand`, in order. */
+	const executedCommands: string[] = [];
+	const window = {
+		activeTextEditor: undefined as
+			| {
+					document: FakeTextDocument;
+					selection: { active: Position };
+					selections: unknown[];
+			  }
+			| undefined,
+		visibleTextEditors: [] as unknown[],
+		state: { focused: true },
+		setStatusBarMessage: () => ({ dispose: () => {} }),
+	};
+	return {
+		textDocuments,
+		didChangeTextDocument,
+		didCloseTextDocument,
+		settings,
+		clipboard,
+		commandResults,
+		executedCommands,
+		window,
+		module: {
+			version: "1.0.0-test",
+			DiagnosticSeverity: { Error: 0, Warning: 1, Information: 2, Hint: 3 },
+			Location,
+			EventEmitter: FakeEventEmitter,
+			Hover,
+			InlineCompletionItem,
+			MarkdownString,
+			Position,
+			Range,
+			Uri: FakeUri,
+			env: {
+				machineId: "test-machine",
+				clipboard: { readText: async () => clipboard.text },
+			},
+			extensions: { getExtension: () => undefined },
+			commands: {
+				executeCommand: async (command: string) => {
+					executedCommands.push(command);
+					return commandResults.get(command);
+				},
+			},
+			languages: { getDiagnostics: () => [] },
+			window,
+			workspace: {
+				fs: { isWritableFileSystem: () => true },
+				textDocuments,
+				getConfiguration: () => ({
+					get: <T>(key: string, defaultValue: T): T =>
+						settings.has(key) ? (settings.get(key) as T) : defaultValue,
+				}),
+				getWorkspaceFolder: () => undefined,
+				openTextDocument: async (uri: FakeUri) => {
+					const document = textDocuments.find(
+						(candidate) => candidate.uri.fsPath === uri.fsPath,
+					);
+					if (!document) throw new Error(`No such file: ${uri.fsPath}`);
+					return document;
+				},
+				asRelativePath: (uri: FakeUri) => uri.fsPath.replace(/^\/repo\//, ""),
+				onDidChangeTextDocument: didChangeTextDocument.event,
+				onDidCloseTextDocument: didCloseTextDocument.event,
+			},
+		},
+	};
+}
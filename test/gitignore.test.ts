@@ -0,0 +1,87 @@
+import { describe, expect, test } from "bun:test";
+
+import { IgnoreMatcher, parseIgnoreRules } from "~/utils/gitignore.ts";
+
+function matcher(content: string): IgnoreMatcher {
+	const result = new IgnoreMatcher();
+	result.setRules("", parseIgnoreRules(content));
+	return result;
+}
+
+describe("parseIgnoreRules", () => {
+	test("skips blank lines and comments but keeps escaped ones", () => {
+		const rules = parseIgnoreRules("# comment\n\n\\#notes.md\n  \n");
+
+		expect(rules).toHaveLength(1);
+		expect(rules[0]?.regex.test("#notes.md")).toBe(true);
+	});
+});
+
+describe("IgnoreMatcher", () => {
+	test("matches unanchored patterns at any depth", () => {
+		const ignore = matcher("*.pem\n.env*");
+
+		expect(ignore.isIgnored("certs/server.pem")).toBe(true);
+		expect(ignore.isIgnored(".env.local")).toBe(true);
+		expect(ignore.isIgnored("src/env.ts")).toBe(false);
+	});
+
+	test("anchors patterns containing a slash", () => {
+		const ignore = matcher("/generated\nsrc/*.gen.ts");
+
+		expect(ignore.isIgnored("generated/api.ts")).toBe(true);
+		expect(ignore.isIgnored("pkg/generated/api.ts")).toBe(false);
+		expect(ignore.isIgnored("src/a.gen.ts")).toBe(true);
+		expect(ignore.isIgnored("src/nested/a.gen.ts")).toBe(false);
+	});
+
+	test("applies directory patterns to directories only", () => {
+		const ignore = matcher("build/");
+
+		expect(ignore.isIgnored("packages/app/build/index.js")).toBe(true);
+		expect(ignore.isIgnored("scripts/build")).toBe(false);
+	});
+
+	test("supports ** in leading, trailing and middle positions", () => {
+		const ignore = matcher("**/fixtures/*.json\nvendor/**\ndocs/**/draft.md");
+
+		expect(ignore.isIgnored("fixtures/a.json")).toBe(true);
+		expect(ignore.isIgnored("test/deep/fixtures/a.json")).toBe(true);
+		expect(ignore.isIgnored("vendor/lib/x.js")).toBe(true);
+		expect(ignore.isIgnored("vendor")).toBe(false);
+		expect(ignore.isIgnored("docs/draft.md")).toBe(true);
+		expect(ignore.isIgnored("docs/a/b/draft.md")).toBe(true);
+	});
+
+	test("re-includes negated files unless their directory is ignored", () => {
+		const ignore = matcher("*.key\n!public.key\nsecrets/\n!secrets/readme.md");
+
+		expect(ignore.isIgnored("private.key")).toBe(true);
+		expect(ignore.isIgnored("public.key")).toBe(false);
+		expect(ignore.isIgnored("secrets/readme.md")).toBe(true);
+	});
+
+	test("lets nested ignore files override the root and default rules", () => {
+		const ignore = new IgnoreMatcher(parseIgnoreRules("*.log"));
+		ignore.setRules("", parseIgnoreRules("/tmp"));
+		ignore.setRules("services/api", parseIgnoreRules("!audit.log\n/tmp"));
+
+		expect(ignore.isIgnored("server.log")).toBe(true);
+		expect(ignore.isIgnored("services/api/audit.log")).toBe(false);
+		expect(ignore.isIgnored("services/api/tmp/cache.ts")).toBe(true);
+		expect(ignore.isIgnored("services/web/tmp/cache.ts")).toBe(false);
+
+		ignore.deleteRules("services/api");
+		expect(ignore.isIgnored("services/api/audit.log")).toBe(true);
+	});
+
+	test("supports character classes and ?", () => {
+		const ignore = matcher("data[0-9].csv\nlog?.txt\n[!a]b.md");
+
+		expect(ignore.isIgnored("data7.csv")).toBe(true);
+		expect(ignore.isIgnored("datax.csv")).toBe(false);
+		expect(ignore.isIgnored("log1.txt")).toBe(true);
+		expect(ignore.isIgnored("cb.md")).toBe(true);
+		expect(ignore.isIgnored("ab.md")).toBe(false);
+	});
+});
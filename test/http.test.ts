@@ -0,0 +1,163 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import * as http from "node:http";
+import type { AddressInfo } from "node:net";
+import { z } from "zod";
+
+import { postJson, postJsonStream, RequestError } from "~/api/http.ts";
+
+const MessageSchema = z.object({ id: z.number() });
+
+let server: http.Server;
+let baseUrl: string;
+let connectionCount = 0;
+let resetNextRequest = false;
+
+beforeAll(async () => {
+	server = http.createServer((req, res) => {
+		if (resetNextRequest) {
+			resetNextRequest = false;
+			req.socket.destroy();
+			return;
+		}
+		if (req.url === "/slow") {
+			setTimeout(() => {
+				res.writeHead(200, { "Content-Type": "application/json" });
+				res.end('{"id":0}');
+			}, 200);
+			return;
+		}
+		if (req.url === "/ndjson") {
+			res.writeHead(200, { "Content-Type": "application/x-ndjson" });
+			res.write('{"id":1}\n{"id"');
+			setTimeout(() => res.end(':2}\n{"id":3}'), 10);
+			return;
+		}
+		if (req.url === "/ndjson-slow") {
+			res.writeHead(200, { "Content-Type": "application/x-ndjson" });
+			res.write('{"id":1}\n');
+			setTimeout(() => res.end('{"id":2}\n'), 150);
+			return;
+		}
+		if (req.url === "/sse") {
+			res.writeHead(200, { "Content-Type": "text/event-stream" });
+			res.end(
+				'event: message\ndata: {"id":1}\n\ndata: {"id":2}\n\ndata: [DONE]\n\n',
+			);
+			return;
+		}
+		if (req.url === "/json") {
+			res.writeHead(200, { "Content-Type": "application/json" });
+			res.end('{"id":7}');
+			return;
+		}
+		res.writeHead(500);
+		res.end("boom");
+	});
+	server.on("connection", () => {
+		connectionCount++;
+	});
+	await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+	baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => {
+	server.closeAllConnections();
+	server.close();
+});
+
+async function collect(
+	path: string,
+	options: { timeoutMs?: number } = {},
+): Promise<number[]> {
+	const ids: number[] = [];
+	await postJsonStream(
+		`${baseUrl}${path}`,
+		"{}",
+		MessageSchema,
+		(message) => {
+			ids.push(message.id);
+		},
+		options,
+	);
+	return ids;
+}
+
+describe("postJsonStream", () => {
+	test("reads NDJSON messages split across chunks", async () => {
+		expect(await collect("/ndjson")).toEqual([1, 2, 3]);
+	});
+
+	test("reads server-sent event data lines", async () => {
+		expect(await collect("/sse")).toEqual([1, 2]);
+	});
+
+	test("treats a plain JSON body as a single message", async () => {
+		expect(await collect("/json")).toEqual([7]);
+	});
+
+	test("lifts the deadline once the first message arrives", async () => {
+		expect(await collect("/ndjson-slow", { timeoutMs: 75 })).toEqual([1, 2]);
+	});
+
+	test("times out a stream that sends no message before the deadline", async () => {
+		const error = await collect("/slow", { timeoutMs: 20 }).catch(
+			(e: Error) => e,
+		);
+
+		expect((error as RequestError).kind).toBe("timeout");
+	});
+
+	test("rejects on a non-200 status", async () => {
+		const error = await collect("/missing").catch((e: Error) => e);
+
+		expect(error).toBeInstanceOf(RequestError);
+		expect((error as RequestError).kind).toBe("http-status");
+		expect((error as RequestError).status).toBe(500);
+	});
+});
+
+describe("postJson", () => {
+	test("rejects with a TimeoutError once the deadline passes", async () => {
+		const error = await postJson(`${baseUrl}/slow`, "{}", MessageSchema, {
+			timeoutMs: 20,
+		}).catch((e: Error) => e);
+
+		expect(error).toBeInstanceOf(RequestError);
+		expect((error as RequestError).kind).toBe("timeout");
+		expect((error as Error).name).toBe("TimeoutError");
+	});
+
+	test("rejects with the abort reason when the signal fires", async () => {
+		const controller = new AbortController();
+		const request = postJson(`${baseUrl}/slow`, "{}", MessageSchema, {
+			signal: controller.signal,
+		});
+		controller.abort("superseded");
+		const error = await request.catch((e: Error) => e);
+
+		expect((error as RequestError).kind).toBe("aborted");
+		expect((error as Error).message).toBe("Request aborted: superseded");
+	});
+
+	test("reuses a kept-alive connection for sequential requests", async () => {
+		await postJson(`${baseUrl}/json`, "{}", MessageSchema);
+		const connectionsBefore = connectionCount;
+
+		for (let i = 0; i < 5; i++) {
+			await postJson(`${baseUrl}/json`, "{}", MessageSchema);
+		}
+
+		expect(connectionCount - connectionsBefore).toBe(0);
+	});
+
+	test("retries once when a kept-alive connection is reset", async () => {
+		await postJson(`${baseUrl}/json`, "{}", MessageSchema);
+		const connectionsBefore = connectionCount;
+
+		resetNextRequest = true;
+		const message = await postJson(`${baseUrl}/json`, "{}", MessageSchema);
+
+		expect(message).toEqual({ id: 7 });
+		expect(connectionCount - connectionsBefore).toBe(1);
+	});
+});
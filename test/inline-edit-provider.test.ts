@@ -0,0 +1,155 @@
+import { beforeEach, describe, expect, mock, test } from "bun:test";
+
+import type { AutocompleteResult } from "~/api/schemas.ts";
+import {
+	createFakeVscode,
+	FakeTextDocument,
+	type InlineCompletionItem,
+	Position,
+} from "./fake-vscode.ts";
+
+const fake = createFakeVscode();
+mock.module("vscode", () => fake.module);
+
+const { InlineEditProvider } = await import("~/editor/inline-edit-provider.ts");
+
+const ORIGINAL = "const a = 1;\n";
+const EDITED = "const a = 1;\nconst b = 2;\n";
+const CURSOR = new Position(1, 12);
+
+interface AutocompleteCall {
+	signal: AbortSignal;
+	onLateResults: (results: AutocompleteResult[]) => boolean;
+	resolve: (results: AutocompleteResult[] | null) => void;
+}
+
+function result(id: string, completion: string): AutocompleteResult {
+	return {
+		id,
+		startIndex: EDITED.length - 1,
+		endIndex: EDITED.length - 1,
+		completion,
+		confidence: 0.9,
+	};
+}
+
+const token = {
+	isCancellationRequested: false,
+	onCancellationRequested: () => ({ dispose: () => {} }),
+};
+
+let document: FakeTextDocument;
+let calls: AutocompleteCall[];
+
+function createProvider() {
+	const tracker = {
+		getOriginalContent: () => ORIGINAL,
+		wasRecentMultiLineSelection: () => false,
+		wasRecentBulkChange: () => false,
+		getEditDiffHistory: () => [],
+		getUserActions: () => [],
+		getRecentContextFiles: () => [],
+	};
+	const jumpEditManager = {
+		classifyEditDisplay: () => ({ decision: "INLINE" }),
+		clearJumpEdit: () => {},
+		setPendingJumpEdit: () => {},
+		takePendingJumpEdit: () => null,
+	};
+	const api = {
+		getAutocomplete: (
+			_input: unknown,
+			signal: AbortSignal,
+			onLateResults: AutocompleteCall["onLateResults"],
+		) =>
+			new Promise<AutocompleteResult[] | null>((resolve) => {
+				calls.push({ signal, onLateResults, resolve });
+			}),
+	};
+	const metricsTracker = { trackShown: () => {}, trackDisposed: () => {} };
+	const suppressionRegions = { findOverlapping: () => undefined };
+	const sweepIgnore = { isIgnored: () => false };
+	return new InlineEditProvider(
+		tracker as never,
+		jumpEditManager as never,
+		api as never,
+		metricsTracker as never,
+		suppressionRegions as never,
+		sweepIgnore as never,
+	);
+}
+
+async function requestSuggestion(
+	provider: InstanceType<typeof InlineEditProvider>,
+): Promise<InlineCompletionItem[]> {
+	const list = await provider.provideInlineCompletionItems(
+		document as never,
+		CURSOR as never,
+		{} as never,
+		token as never,
+	);
+	return (list?.items ?? []) as unknown as InlineCompletionItem[];
+}
+
+beforeEach(() => {
+	document = new FakeTextDocument("/repo/src/main.ts", EDITED);
+	fake.window.activeTextEditor = {
+		document,
+		selection: { active: CURSOR },
+		selections: [],
+	};
+	fake.window.state.focused = true;
+	calls = [];
+});
+
+describe("InlineEditProvider prefetch", () => {
+	test("serves the prefetched suggestion when nothing moved", async () => {
+		const provider = createProvider();
+		await provider.prefetchAfterAccept();
+		calls[0]?.resolve([result("prefetched", "const c = 3;")]);
+
+		const items = await requestSuggestion(provider);
+
+		expect(items.map((item) => item.insertText)).toEqual(["const c = 3;"]);
+		expect(calls).toHaveLength(1);
+		expect(calls[0]?.signal.aborted).toBe(false);
+	});
+
+	test("aborts the prefetch once the document has changed", async () => {
+		const provider = createProvider();
+		await provider.prefetchAfterAccept();
+		const prefetchSignal = calls[0]?.signal;
+		document.replace(0, 0, "// edited\n");
+
+		const pending = requestSuggestion(provider);
+		while (calls.length < 2) await Bun.sleep(10);
+		calls[1]?.resolve(null);
+
+		expect(await pending).toEqual([]);
+		expect(prefetchSignal?.aborted).toBe(true);
+		expect(prefetchSignal?.reason).toBe("document changed since prefetch");
+	});
+
+	test("replays results streamed before the prefetch was picked up", async () => {
+		const provider = createProvider();
+		await provider.prefetchAfterAccept();
+		const late = result("late", "const d = 4;");
+		expect(calls[0]?.onLateResults([late])).toBe(true);
+		calls[0]?.resolve([result("prefetched", "const c = 3;")]);
+
+		await requestSuggestion(provider);
+
+		expect(
+			provider.takePendingSuggestions(document as never).map(({ id }) => id),
+		).toEqual(["prefetched", "late"]);
+	});
+
+	test("does not prefetch while suggestions are suppressed", async () => {
+		const provider = createProvider();
+		fake.window.state.focused = false;
+
+		await provider.prefetchAfterAccept();
+
+		expect(calls).toHaveLength(0);
+	});
+});
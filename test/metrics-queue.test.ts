@@ -0,0 +1,87 @@
+import { describe, expect, test } from "bun:test";
+
+import type { AutocompleteMetricsRequest } from "~/api/schemas.ts";
+import { MetricsEventQueue } from "~/telemetry/metrics-queue.ts";
+
+function event(id: string): AutocompleteMetricsRequest {
+	return {
+		event_type: "autocomplete_suggestion_shown",
+		suggestion_type: "GHOST_TEXT",
+		additions: 1,
+		deletions: 1,
+		autocomplete_id: id,
+		debug_info: "test",
+		device_id: "device",
+	};
+}
+
+function memoryStorage(initial: AutocompleteMetricsRequest[] = []) {
+	const state = { events: initial };
+	return {
+		state,
+		storage: {
+			load: () => state.events,
+			save: (events: AutocompleteMetricsRequest[]) => {
+				state.events = events;
+			},
+		},
+	};
+}
+
+describe("MetricsEventQueue", () => {
+	test("restores the persisted backlog and sends it on flush", async () => {
+		const { state, storage } = memoryStorage([event("a"), event("b")]);
+		const sent: string[] = [];
+		const queue = new MetricsEventQueue({
+			send: async (e) => {
+				sent.push(e.autocomplete_id);
+			},
+			storage,
+		});
+
+		const result = await queue.flush();
+
+		expect(sent).toEqual(["a", "b"]);
+		expect(result).toEqual({ sent: 2, remaining: 0, failed: false });
+		expect(state.events).toEqual([]);
+	});
+
+	test("keeps undelivered events persisted after a send failure", async () => {
+		const { state, storage } = memoryStorage();
+		const queue = new MetricsEventQueue({
+			send: async (e) => {
+				if (e.autocomplete_id === "b") throw new Error("offline");
+			},
+			storage,
+		});
+		queue.enqueue(event("a"));
+		queue.enqueue(event("b"));
+		queue.enqueue(event("c"));
+
+		const result = await queue.flush();
+
+		expect(result).toEqual({ sent: 1, remaining: 2, failed: true });
+		expect(state.events.map((e) => e.autocomplete_id)).toEqual(["b", "c"]);
+	});
+
+	test("sends at most one batch per flush and drops the oldest beyond capacity", async () => {
+		const { storage } = memoryStorage();
+		const sent: string[] = [];
+		const queue = new MetricsEventQueue({
+			send: async (e) => {
+				sent.push(e.autocomplete_id);
+			},
+			storage,
+			maxBatchSize: 2,
+			maxQueueSize: 3,
+		});
+		for (const id of ["a", "b", "c", "d"]) {
+			queue.enqueue(event(id));
+		}
+
+		const result = await queue.flush();
+
+		expect(sent).toEqual(["b", "c"]);
+		expect(result).toEqual({ sent: 2, remaining: 1, failed: false });
+	});
+});
@@ -0,0 +1,101 @@
+import { describe, expect, test } from "bun:test";
+
+import {
+	buildNextEditPrompt,
+	parseNextEditCompletion,
+} from "~/api/next-edit-prompt.ts";
+
+describe("buildNextEditPrompt", () => {
+	test("lays out context, diffs and the original/current window", () => {
+		const currentContents = "const a = 1;\nconst b = 2;\n";
+		const { prompt, window } = buildNextEditPrompt({
+			filePath: "src/main.ts",
+			originalContents: "const a = 1;\n",
+			currentContents,
+			cursorOffset: currentContents.indexOf("b"),
+			fileChunks: [
+				{
+					file_path: "src/util.ts",
+					start_line: 0,
+					end_line: 1,
+					content: "export const x = 1;",
+				},
+			],
+			retrievalChunks: [],
+			recentChanges:
+				"File: src/main.ts:\n@@ -1,1 +1,2 @@\n const a = 1;\n+const b = 2;\n",
+		});
+
+		expect(window).toEqual({
+			startOffset: 0,
+			endOffset: currentContents.length,
+			text: currentContents,
+		});
+		expect(prompt).toBe(
+			[
+				"<|file_sep|>src/util.ts",
+				"export const x = 1;",
+				"<|file_sep|>src/main.ts.diff",
+				"original:",
+				"const a = 1;",
+				"updated:",
+				"const a = 1;",
+				"const b = 2;",
+				"<|file_sep|>original/src/main.ts",
+				"const a = 1;",
+				"",
+				"<|file_sep|>current/src/main.ts",
+				"const a = 1;",
+				"const b = 2;",
+				"",
+				"<|file_sep|>updated/src/main.ts",
+				"",
+			].join("\n"),
+		);
+	});
+
+	test("limits the window to the lines around the cursor", () => {
+		const lines = Array.from({ length: 40 }, (_, i) => `line ${i}`);
+		const currentContents = lines.join("\n");
+		const { window } = buildNextEditPrompt({
+			filePath: "a.txt",
+			originalContents: currentContents,
+			currentContents,
+			cursorOffset: currentContents.indexOf("line 20"),
+			fileChunks: [],
+			retrievalChunks: [],
+			recentChanges: "",
+		});
+
+		expect(window.text.split("\n")[0]).toBe("line 10");
+		expect(window.text.endsWith("line 30\n")).toBe(true);
+		expect(window.startOffset).toBe(currentContents.indexOf("line 10"));
+	});
+});
+
+describe("parseNextEditCompletion", () => {
+	const window = {
+		startOffset: 100,
+		endOffset: 124,
+		text: "foo(a);\nbar(b);\nbaz();\n",
+	};
+
+	test("returns the smallest replacement inside the window", () => {
+		const result = parseNextEditCompletion(
+			window,
+			"foo(a);\nbar(b, c);\nbaz();\n<|file_sep|>ignored",
+		);
+
+		expect(result).toEqual({
+			startIndex: 100 + "foo(a);\nbar(b".length,
+			endIndex: 100 + "foo(a);\nbar(b".length,
+			completion: ", c",
+		});
+	});
+
+	test("returns null when the window is unchanged", () => {
+		expect(
+			parseNextEditCompletion(window, "foo(a);\nbar(b);\nbaz();</s>"),
+		).toBeNull();
+	});
+});
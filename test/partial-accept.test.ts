@@ -0,0 +1,92 @@
+import { describe, expect, test } from "bun:test";
+
+import { splitPartialAccept } from "~/editor/partial-accept.ts";
+
+function apply(
+	text: string,
+	edit: { startIndex: number; endIndex: number; completion: string },
+): string {
+	return (
+		text.slice(0, edit.startIndex) + edit.completion + text.slice(edit.endIndex)
+	);
+}
+
+describe("splitPartialAccept", () => {
+	test("inserts the next word and keeps the rest pending", () => {
+		const text = "call(a);";
+		const edit = { startIndex: 0, endIndex: 8, completion: "call(a, bee);" };
+		const { applied, remaining } = splitPartialAccept(text, edit, "word");
+
+		const updated = apply(text, applied);
+		expect(updated).toBe("call(a,);");
+		expect(remaining).not.toBeNull();
+		if (!remaining) return;
+		expect(apply(updated, remaining)).toBe("call(a, bee);");
+		expect(remaining.completion).toBe(" bee");
+	});
+
+	test("swaps a replaced word in place", () => {
+		const text = "let x = 1;";
+		const edit = { startIndex: 0, endIndex: 10, completion: "const x = 1;" };
+		const { applied, remaining } = splitPartialAccept(text, edit, "word");
+
+		expect(apply(text, applied)).toBe("const x = 1;");
+		expect(remaining).toBeNull();
+	});
+
+	test("inserts a word without deleting the word after it", () => {
+		const text = "foo bar";
+		const edit = { startIndex: 0, endIndex: 7, completion: "fooX bar" };
+		const { applied, remaining } = splitPartialAccept(text, edit, "word");
+
+		expect(apply(text, applied)).toBe("fooX bar");
+		expect(remaining).toBeNull();
+	});
+
+	test("inserts an argument before one the suggestion keeps", () => {
+		const text = "foo(a)";
+		const edit = { startIndex: 0, endIndex: 6, completion: "foo(b, a)" };
+		const { applied, remaining } = splitPartialAccept(text, edit, "word");
+
+		expect(applied.endIndex).toBe(applied.startIndex);
+		const updated = apply(text, applied);
+		expect(remaining && apply(updated, remaining)).toBe("foo(b, a)");
+	});
+
+	test("inserts a line without deleting the line after it", () => {
+		const text = "a\nb";
+		const edit = { startIndex: 0, endIndex: 3, completion: "x\na\nb" };
+		const { applied, remaining } = splitPartialAccept(text, edit, "line");
+
+		expect(apply(text, applied)).toBe("x\na\nb");
+		expect(remaining).toBeNull();
+	});
+
+	test("applies one line at a time", () => {
+		const text = "a\nb\nc\n";
+		const edit = { startIndex: 0, endIndex: 6, completion: "A\nB\nc\n" };
+		const first = splitPartialAccept(text, edit, "line");
+
+		const updated = apply(text, first.applied);
+		expect(updated).toBe("A\nb\nc\n");
+		expect(first.remaining).toEqual({
+			startIndex: 2,
+			endIndex: 3,
+			completion: "B",
+		});
+	});
+
+	test("offsets stay relative to the whole document", () => {
+		const text = "prefix foo();";
+		const edit = { startIndex: 7, endIndex: 13, completion: "bar(1);" };
+		const { applied, remaining } = splitPartialAccept(
+			text.slice(7),
+			edit,
+			"word",
+		);
+
+		const updated = apply(text, applied);
+		expect(updated).toBe("prefix bar();");
+		expect(remaining && apply(updated, remaining)).toBe("prefix bar(1);");
+	});
+});
@@ -0,0 +1,20 @@
+import { describe, expect, test } from "bun:test";
+
+import { pathRefersTo } from "~/utils/path.ts";
+
+describe("pathRefersTo", () => {
+	test("matches the same absolute path", () => {
+		expect(pathRefersTo("/repo/src/a.ts", "/repo/src/a.ts")).toBe(true);
+	});
+
+	test("matches a path relative to a parent directory", () => {
+		expect(pathRefersTo("src/a.ts", "/repo/src/a.ts")).toBe(true);
+		expect(pathRefersTo("./src/a.ts", "/repo/src/a.ts")).toBe(true);
+		expect(pathRefersTo("src\\a.ts", "C:/repo/src/a.ts")).toBe(true);
+	});
+
+	test("does not match a different file sharing a suffix", () => {
+		expect(pathRefersTo("a.ts", "/repo/src/data.ts")).toBe(false);
+		expect(pathRefersTo("lib/a.ts", "/repo/src/a.ts")).toBe(false);
+	});
+});
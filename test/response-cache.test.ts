@@ -0,0 +1,69 @@
+import { describe, expect, test } from "bun:test";
+
+import { ResponseCache, responseCacheKey } from "~/api/response-cache.ts";
+
+const baseParts = {
+	backend: "local",
+	filePath: "src/main.ts",
+	fileContents: "const a = 1;\n",
+	cursorPosition: 5,
+	recentChanges: "",
+};
+
+describe("responseCacheKey", () => {
+	test("is stable for identical requests", () => {
+		expect(responseCacheKey(baseParts)).toBe(
+			responseCacheKey({ ...baseParts }),
+		);
+	});
+
+	test("changes with the cursor, contents or recent changes", () => {
+		const key = responseCacheKey(baseParts);
+		expect(responseCacheKey({ ...baseParts, cursorPosition: 6 })).not.toBe(key);
+		expect(
+			responseCacheKey({ ...baseParts, fileContents: "const a = 2;\n" }),
+		).not.toBe(key);
+		expect(
+			responseCacheKey({ ...baseParts, recentChanges: "File: a:\n+x\n" }),
+		).not.toBe(key);
+	});
+});
+
+describe("ResponseCache", () => {
+	test("evicts the least recently used entry", () => {
+		const cache = new ResponseCache<number>(2);
+		cache.set("a", "f", 1);
+		cache.set("b", "f", 2);
+		cache.get("a");
+		cache.set("c", "f", 3);
+
+		expect(cache.get("a")).toBe(1);
+		expect(cache.get("b")).toBeUndefined();
+		expect(cache.get("c")).toBe(3);
+	});
+
+	test("invalidates entries by file", () => {
+		const cache = new ResponseCache<number>();
+		cache.set("a", "one.ts", 1);
+		cache.set("b", "two.ts", 2);
+		cache.invalidate("one.ts");
+
+		expect(cache.get("a")).toBeUndefined();
+		expect(cache.get("b")).toBe(2);
+	});
+
+	test("reports the hit rate", () => {
+		const cache = new ResponseCache<number>();
+		expect(cache.getStats().hitRate).toBe(0);
+		cache.set("a", "f", 1);
+		cache.get("a");
+		cache.get("missing");
+
+		expect(cache.getStats()).toEqual({
+			hits: 1,
+			misses: 1,
+			size: 1,
+			hitRate: 0.5,
+		});
+	});
+});
@@ -1,6 +1,7 @@
 import { describe, expect, test } from "bun:test";
 
 import {
+	countSentChunks,
 	fuseAndDedupRetrievalSnippets,
 	truncateRetrievalChunk,
 } from "~/api/retrieval-chunks.ts";
@@ -114,3 +115,27 @@ describe("fuseAndDedupRetrievalSnippets", () => {
 		expect(result).toEqual([large]);
 	});
 });
+
+describe("countSentChunks", () => {
+	test("counts chunks fused together once each", () => {
+		const definitions = [
+			chunk({ start_line: 1, end_line: 5 }),
+			chunk({ start_line: 4, end_line: 9 }),
+		];
+		const sent = fuseAndDedupRetrievalSnippets(definitions);
+
+		expect(sent).toHaveLength(1);
+		expect(countSentChunks(definitions, sent)).toBe(2);
+	});
+
+	test("skips chunks that were dropped or trimmed away", () => {
+		const definitions = [
+			chunk({ start_line: 1, end_line: 5 }),
+			chunk({ start_line: 20, end_line: 25 }),
+			chunk({ file_path: "src/other.ts", start_line: 1, end_line: 5 }),
+		];
+		const sent = [chunk({ start_line: 1, end_line: 10 })];
+
+		expect(countSentChunks(definitions, sent)).toBe(1);
+	});
+});
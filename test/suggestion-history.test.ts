@@ -0,0 +1,90 @@
+import { describe, expect, test } from "bun:test";
+
+import {
+	locateHistoryEntry,
+	SuggestionHistoryStore,
+} from "~/telemetry/suggestion-history.ts";
+
+const URI = "file:///repo/a.ts";
+const TEXT = "const a = 1;\nconst b = 2;\nconst c = 3;\n";
+
+function shown(id: string, startIndex: number, endIndex: number, uri = URI) {
+	return {
+		status: "shown" as const,
+		uri,
+		documentText: TEXT,
+		result: { id, startIndex, endIndex, completion: "42", confidence: 1 },
+	};
+}
+
+describe("SuggestionHistoryStore", () => {
+	test("records suggestions newest first and tracks their status", () => {
+		const store = new SuggestionHistoryStore();
+		store.record(shown("first", 10, 11), 1);
+		store.record(shown("second", 23, 24), 2);
+
+		expect(store.record({ status: "disposed", id: "first" }, 3)).toBe(true);
+		expect(store.record({ status: "disposed", id: "first" }, 4)).toBe(false);
+
+		const entries = store.getEntries(URI);
+		expect(entries.map((entry) => entry.id)).toEqual(["second", "first"]);
+		expect(entries[1]).toMatchObject({
+			status: "disposed",
+			updatedAt: 3,
+			startLine: 0,
+			originalText: "1",
+		});
+		expect(entries[0]?.startLine).toBe(1);
+	});
+
+	test("keeps the most recent entries per file and most recent files", () => {
+		const store = new SuggestionHistoryStore({
+			maxEntriesPerFile: 2,
+			maxFiles: 2,
+		});
+		store.record(shown("a", 10, 11));
+		store.record(shown("b", 10, 11));
+		store.record(shown("c", 10, 11));
+		store.record(shown("d", 10, 11, "file:///repo/b.ts"));
+		store.record(shown("e", 10, 11, "file:///repo/c.ts"));
+
+		expect(store.getFiles()).toEqual([
+			"file:///repo/c.ts",
+			"file:///repo/b.ts",
+		]);
+		expect(store.find("c")).toBeUndefined();
+
+		const kept = new SuggestionHistoryStore({ maxEntriesPerFile: 2 });
+		kept.record(shown("a", 10, 11));
+		kept.record(shown("b", 10, 11));
+		kept.record(shown("c", 10, 11));
+		expect(kept.getEntries(URI).map((entry) => entry.id)).toEqual(["c", "b"]);
+	});
+});
+
+describe("locateHistoryEntry", () => {
+	const store = new SuggestionHistoryStore();
+	store.record(shown("b", 23, 24));
+	const entry = store.find("b");
+	if (!entry) throw new Error("entry not recorded");
+
+	test("uses the original offsets while the text is unchanged", () => {
+		expect(locateHistoryEntry(TEXT, entry)).toEqual({
+			startIndex: 23,
+			endIndex: 24,
+		});
+	});
+
+	test("follows the surrounding text when it moved", () => {
+		expect(locateHistoryEntry(`// header\n${TEXT}`, entry)).toEqual({
+			startIndex: 33,
+			endIndex: 34,
+		});
+	});
+
+	test("gives up once the surrounding text changed", () => {
+		expect(
+			locateHistoryEntry(TEXT.replace("const c", "let c"), entry),
+		).toBeNull();
+	});
+});
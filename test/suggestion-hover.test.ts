@@ -0,0 +1,102 @@
+import { describe, expect, mock, test } from "bun:test";
+
+import type { AutocompleteResult } from "~/api/schemas.ts";
+import {
+	createFakeVscode,
+	FakeTextDocument,
+	type Hover,
+	Position,
+} from "./fake-vscode.ts";
+
+mock.module("vscode", () => createFakeVscode().module);
+
+const { SuggestionHoverProvider } = await import(
+	"~/editor/suggestion-hover.ts"
+);
+
+const TEXT = "const a = 1;\nconst b = 2;\nconst c = 3;\nconst d = 4;";
+
+function result(startLine: number, endLine: number): AutocompleteResult {
+	const lineStart = (line: number) => line * 13;
+	return {
+		id: "suggestion-1",
+		startIndex: lineStart(startLine),
+		endIndex: lineStart(endLine) + 12,
+		completion: "let x = 0;",
+		confidence: 0.82,
+	};
+}
+
+function createProvider(options: {
+	ghostText?: AutocompleteResult;
+	jumpEdit?: AutocompleteResult;
+}) {
+	const inlineEditProvider = {
+		getShownInlineSuggestion: () => options.ghostText ?? null,
+	};
+	const jumpEditManager = {
+		getPendingJumpEditIn: () => options.jumpEdit ?? null,
+	};
+	return new SuggestionHoverProvider(
+		inlineEditProvider as never,
+		jumpEditManager as never,
+	);
+}
+
+function hoverAt(
+	provider: InstanceType<typeof SuggestionHoverProvider>,
+	line: number,
+): Hover | undefined {
+	const document = new FakeTextDocument("/repo/src/example.ts", TEXT);
+	return provider.provideHover(
+		document as never,
+		new Position(line, 0) as never,
+	) as unknown as Hover | undefined;
+}
+
+describe("SuggestionHoverProvider", () => {
+	test("covers every line of the suggestion, and only those", () => {
+		const provider = createProvider({ ghostText: result(1, 2) });
+
+		expect(hoverAt(provider, 0)).toBeUndefined();
+		expect(hoverAt(provider, 1)).toBeDefined();
+		expect(hoverAt(provider, 2)?.range).toMatchObject({
+			start: { line: 1, character: 0 },
+			end: { line: 2, character: 12 },
+		});
+		expect(hoverAt(provider, 3)).toBeUndefined();
+	});
+
+	test("falls back to the pending jump edit outside the ghost text", () => {
+		const provider = createProvider({
+			ghostText: result(0, 0),
+			jumpEdit: result(3, 3),
+		});
+
+		expect(hoverAt(provider, 0)?.contents.value).toContain(
+			"**Sweep suggestion**",
+		);
+		expect(hoverAt(provider, 3)?.contents.value).toContain(
+			"**Sweep jump edit**",
+		);
+	});
+
+	test("links never-suggest-here to the suggestion's start", () => {
+		const provider = createProvider({ ghostText: result(1, 1) });
+
+		const markdown = hoverAt(provider, 1)?.contents;
+
+		expect(markdown?.isTrusted).toEqual({
+			enabledCommands: [
+				"editor.action.inlineSuggest.commit",
+				"editor.action.inlineSuggest.hide",
+				"sweep.neverSuggestHere",
+			],
+		});
+		expect(markdown?.value).toContain(
+			`command:sweep.neverSuggestHere?${encodeURIComponent(
+				JSON.stringify(["file:///repo/src/example.ts", 13]),
+			)}`,
+		);
+	});
+});
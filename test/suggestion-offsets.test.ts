@@ -0,0 +1,99 @@
+import { describe, expect, test } from "bun:test";
+
+import {
+	appliedRanges,
+	groupAlternatives,
+	rebaseSuggestions,
+	selectNonOverlapping,
+} from "~/editor/suggestion-offsets.ts";
+
+function suggestion(startIndex: number, endIndex: number, completion: string) {
+	return { startIndex, endIndex, completion };
+}
+
+describe("selectNonOverlapping", () => {
+	test("keeps the first of overlapping suggestions and sorts the rest", () => {
+		const first = suggestion(10, 20, "a");
+		const overlapping = suggestion(15, 25, "b");
+		const earlier = suggestion(0, 5, "c");
+
+		expect(selectNonOverlapping([first, overlapping, earlier])).toEqual([
+			earlier,
+			first,
+		]);
+	});
+
+	test("treats insertions at the same offset as overlapping", () => {
+		expect(
+			selectNonOverlapping([suggestion(4, 4, "a"), suggestion(4, 4, "b")]),
+		).toHaveLength(1);
+	});
+});
+
+describe("rebaseSuggestions", () => {
+	test("shifts suggestions after the accepted edit by its length change", () => {
+		const accepted = suggestion(10, 12, "hello");
+		const before = suggestion(0, 5, "x");
+		const after = suggestion(20, 22, "y");
+
+		expect(rebaseSuggestions([before, after], accepted)).toEqual([
+			before,
+			suggestion(23, 25, "y"),
+		]);
+	});
+
+	test("drops suggestions that overlap the accepted edit", () => {
+		expect(
+			rebaseSuggestions([suggestion(11, 14, "z")], suggestion(10, 12, "a")),
+		).toEqual([]);
+	});
+});
+
+describe("appliedRanges", () => {
+	test("accounts for the length change of earlier suggestions", () => {
+		expect(
+			appliedRanges([
+				suggestion(0, 3, "a"),
+				suggestion(10, 10, "inserted"),
+				suggestion(20, 25, "bb"),
+			]),
+		).toEqual([
+			{ startOffset: 0, endOffset: 1 },
+			{ startOffset: 8, endOffset: 16 },
+			{ startOffset: 26, endOffset: 28 },
+		]);
+	});
+});
+
+describe("groupAlternatives", () => {
+	function alternative(
+		startIndex: number,
+		endIndex: number,
+		confidence: number,
+		targetUri?: string,
+	) {
+		return {
+			...suggestion(startIndex, endIndex, "x"),
+			confidence,
+			...(targetUri !== undefined ? { targetUri } : {}),
+		};
+	}
+
+	test("groups overlapping suggestions, most confident first", () => {
+		const low = alternative(10, 20, 0.4);
+		const separate = alternative(30, 32, 0.9);
+		const high = alternative(12, 18, 0.8);
+
+		expect(groupAlternatives([low, separate, high])).toEqual([
+			[high, low],
+			[separate],
+		]);
+	});
+
+	test("keeps edits to different documents apart", () => {
+		const local = alternative(10, 20, 0.5);
+		const remote = alternative(10, 20, 0.9, "file:///other.ts");
+
+		expect(groupAlternatives([local, remote])).toEqual([[local], [remote]]);
+	});
+});
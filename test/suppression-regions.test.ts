@@ -0,0 +1,91 @@
+import { describe, expect, test } from "bun:test";
+
+import {
+	type SuppressionRegion,
+	SuppressionRegionStore,
+} from "~/editor/suppression-regions.ts";
+
+const URI = "file:///repo/generated.ts";
+
+function memoryStorage(initial: SuppressionRegion[] = []) {
+	const state = { regions: initial, saves: 0 };
+	return {
+		state,
+		storage: {
+			load: () => state.regions,
+			save: (regions: SuppressionRegion[]) => {
+				state.regions = regions;
+				state.saves++;
+			},
+		},
+	};
+}
+
+describe("SuppressionRegionStore", () => {
+	test("finds regions overlapping an offset or range", () => {
+		const { storage } = memoryStorage();
+		const store = new SuppressionRegionStore(storage);
+		const region = store.add({
+			uri: URI,
+			offsets: { startOffset: 10, endOffset: 20 },
+			label: "function build",
+		});
+
+		expect(store.findOverlapping(URI, 15)).toEqual(region);
+		expect(store.findOverlapping(URI, 0, 10)).toEqual(region);
+		expect(store.findOverlapping(URI, 21, 30)).toBeUndefined();
+		expect(store.findOverlapping("file:///repo/other.ts", 15)).toBeUndefined();
+	});
+
+	test("treats regions without offsets as the whole file", () => {
+		const { storage } = memoryStorage();
+		const store = new SuppressionRegionStore(storage);
+		store.add({ uri: URI, label: "whole file" });
+
+		expect(store.findOverlapping(URI, 12_345)?.label).toBe("whole file");
+	});
+
+	test("follows edits and persists the moved regions", () => {
+		const { state, storage } = memoryStorage();
+		const store = new SuppressionRegionStore(storage);
+		store.add({
+			uri: URI,
+			offsets: { startOffset: 10, endOffset: 20 },
+			label: "a",
+		});
+		const savesAfterAdd = state.saves;
+
+		store.applyChanges(URI, [{ rangeOffset: 0, rangeLength: 0, text: "abc" }]);
+
+		expect(store.getRegions(URI)[0]?.offsets).toEqual({
+			startOffset: 13,
+			endOffset: 23,
+		});
+		expect(state.saves).toBe(savesAfterAdd + 1);
+		expect(new SuppressionRegionStore(storage).getRegions(URI)).toHaveLength(1);
+	});
+
+	test("drops regions whose text was deleted", () => {
+		const { storage } = memoryStorage();
+		const store = new SuppressionRegionStore(storage);
+		store.add({
+			uri: URI,
+			offsets: { startOffset: 10, endOffset: 20 },
+			label: "a",
+		});
+
+		store.applyChanges(URI, [{ rangeOffset: 5, rangeLength: 20, text: "" }]);
+
+		expect(store.getRegions(URI)).toEqual([]);
+	});
+
+	test("removes regions by id", () => {
+		const { storage } = memoryStorage();
+		const store = new SuppressionRegionStore(storage);
+		const region = store.add({ uri: URI, label: "whole file" });
+
+		store.remove([region.id]);
+
+		expect(store.getRegions(URI)).toEqual([]);
+	});
+});